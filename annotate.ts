@@ -0,0 +1,76 @@
+import { App, CachedMetadata, TFile, getAllTags } from 'obsidian';
+import type { SortInboxSettings } from './settings';
+import { ApplyMode } from './types';
+
+// 分類結果の反映方法の表示名
+export const APPLY_MODE_LABELS: Record<ApplyMode, string> = {
+    move: 'フォルダに移動する',
+    property: 'プロパティに書き込む（移動しない）',
+    tag: 'タグを付ける（移動しない）',
+    'property-and-tag': 'プロパティとタグの両方（移動しない）',
+};
+
+// タグの書式で分類先フォルダ名に置き換える部分
+const FOLDER_PLACEHOLDER = '{folder}';
+
+// プロパティに書き込む反映方法か
+function writesProperty(mode: ApplyMode): boolean {
+    return mode === 'property' || mode === 'property-and-tag';
+}
+
+// タグを付ける反映方法か
+function writesTag(mode: ApplyMode): boolean {
+    return mode === 'tag' || mode === 'property-and-tag';
+}
+
+// 分類先フォルダ名から、設定した書式のタグを作成する（例：「category/{folder}」→「category/技術メモ」）
+export function formatCategoryTag(format: string, folder: string): string {
+    const name = folder.replace(/^\/+|\/+$/g, '');
+    return (format.trim() || FOLDER_PLACEHOLDER)
+        .replace(FOLDER_PLACEHOLDER, name)
+        .replace(/^#/, '')
+        .replace(/\s+/g, '-');
+}
+
+// frontmatterのtagsにタグを追加する（既にある場合は何もしない）
+export function addTagToFrontmatter(frontmatter: Record<string, unknown>, tag: string): void {
+    const value = frontmatter.tags;
+    const tags: unknown[] = Array.isArray(value)
+        ? value
+        : typeof value === 'string' ? value.split(/[,\s]+/).filter(t => t) : [];
+    if (!tags.map(t => String(t).replace(/^#/, '')).includes(tag)) {
+        frontmatter.tags = [...tags, tag];
+    }
+}
+
+// 分類結果をメモのプロパティ・タグとして書き込む
+export async function writeClassification(app: App, file: TFile, folder: string, settings: SortInboxSettings): Promise<void> {
+    await app.fileManager.processFrontMatter(file, (frontmatter) => {
+        if (writesProperty(settings.applyMode)) {
+            frontmatter[settings.categoryProperty.trim() || 'category'] = folder.replace(/^\/+|\/+$/g, '');
+        }
+        if (writesTag(settings.applyMode)) {
+            addTagToFrontmatter(frontmatter, formatCategoryTag(settings.categoryTagFormat, folder));
+        }
+    });
+}
+
+// 分類結果が既に書き込まれているメモか（移動しない反映方法で、分類済みのメモを再び分類しないため）
+export function isAnnotated(cache: CachedMetadata | null, settings: SortInboxSettings): boolean {
+    if (!cache || settings.applyMode === 'move') {
+        return false;
+    }
+    if (writesProperty(settings.applyMode)) {
+        const value = cache.frontmatter?.[settings.categoryProperty.trim() || 'category'];
+        return value !== undefined && value !== null && value !== '';
+    }
+    // 書式の「{folder}」以外の部分が一致するタグがあれば書き込み済みとみなす
+    // 書式が「{folder}」のみの場合は他のタグと区別できないため、判定しない
+    const [prefix, suffix = ''] = formatCategoryTag(settings.categoryTagFormat, FOLDER_PLACEHOLDER).split(FOLDER_PLACEHOLDER);
+    if (!prefix && !suffix) {
+        return false;
+    }
+    return (getAllTags(cache) || [])
+        .map(tag => tag.replace(/^#/, ''))
+        .some(tag => tag.length > prefix.length + suffix.length && tag.startsWith(prefix) && tag.endsWith(suffix));
+}
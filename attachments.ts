@@ -0,0 +1,34 @@
+import { MetadataCache, TFile, getLinkpath } from 'obsidian';
+
+// メモが埋め込んでいる添付ファイルのうち、メモと一緒に移動するものを取得する
+// 監視対象フォルダ内（監視対象フォルダがルートの場合はメモと同じフォルダ）にあり、
+// 他のメモから参照されていないファイルのみを返す（共有されている添付ファイルは残す）
+export function findMovableAttachments(file: TFile, inboxPath: string, metadataCache: MetadataCache): TFile[] {
+    const embeds = metadataCache.getFileCache(file)?.embeds || [];
+    const attachments: TFile[] = [];
+
+    for (const embed of embeds) {
+        const attachment = metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), file.path);
+        // 見つからないもの・埋め込まれたメモ（Markdown）・重複は対象外
+        if (!attachment || attachment.extension === 'md' || attachments.includes(attachment)) {
+            continue;
+        }
+
+        const inInbox = inboxPath
+            ? attachment.path.startsWith(inboxPath + '/')
+            : attachment.parent?.path === file.parent?.path;
+        if (!inInbox || isReferencedByOthers(attachment, file, metadataCache)) {
+            continue;
+        }
+
+        attachments.push(attachment);
+    }
+
+    return attachments;
+}
+
+// 指定したメモ以外から参照（埋め込み・リンク）されているか
+function isReferencedByOthers(attachment: TFile, note: TFile, metadataCache: MetadataCache): boolean {
+    return Object.keys(metadataCache.resolvedLinks)
+        .some(source => source !== note.path && metadataCache.resolvedLinks[source][attachment.path]);
+}
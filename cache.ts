@@ -0,0 +1,93 @@
+import { App, TFile } from 'obsidian';
+import type { SortInboxSettings } from './settings';
+import type { FolderPrediction } from './classify';
+
+// キャッシュに保存する分類結果
+export interface CachedClassification extends FolderPrediction {
+    timestamp: number;
+}
+
+// 保存する分類結果の最大件数（超えた場合は古いものから削除する）
+const MAX_ENTRIES = 2000;
+
+// SHA-256のハッシュ値（16進数）を計算する
+export async function hashText(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest))
+        .map(byte => ('0' + byte.toString(16)).slice(-2))
+        .join('');
+}
+
+// 分類結果に影響する設定（分類先フォルダ・説明・ルール・追加の指示・分類方法・生成するメタデータ・
+// プロバイダーとモデル・送信する文字数・既存メモの例）のハッシュ値を計算する
+export function hashClassificationConfig(settings: SortInboxSettings, folderList: string[]): Promise<string> {
+    const options = settings.classificationOptions;
+    return hashText(JSON.stringify({
+        folders: folderList,
+        details: folderList.map(folder => settings.folderDetails[folder] || null),
+        rules: settings.rules,
+        instructions: settings.promptInstructions || '',
+        method: settings.classificationMethod,
+        enrichment: settings.enrichment,
+        provider: settings.llmProvider,
+        model: settings.llmProvider === 'openai' ? settings.openaiModel
+            : settings.llmProvider === 'ollama' ? settings.ollamaModel : '',
+        maxContentLength: options.maxContentLength,
+        batchExcerptLength: options.batchExcerptLength,
+        fewShotExamplesPerFolder: options.fewShotExamplesPerFolder,
+        fewShotTokenBudget: options.fewShotTokenBudget,
+    }));
+}
+
+// メモのタイトル・内容と設定のハッシュ値からキャッシュのキーを作成する
+export function getCacheKey(configHash: string, file: TFile, content: string): Promise<string> {
+    return hashText(`${configHash}\n${file.basename}\n${content}`);
+}
+
+// メモの内容と分類先の設定が変わっていない間、分類結果を再利用するためのキャッシュ
+export class ClassificationCache {
+    private entries: Record<string, CachedClassification> = {};
+
+    constructor(private app: App, private cachePath: string) {}
+
+    // キャッシュファイルを読み込む
+    async load(): Promise<void> {
+        try {
+            if (await this.app.vault.adapter.exists(this.cachePath)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.cachePath));
+                this.entries = data.entries && typeof data.entries === 'object' ? data.entries : {};
+            }
+        } catch (error) {
+            console.error('分類結果のキャッシュの読み込み中にエラーが発生:', error);
+            this.entries = {};
+        }
+    }
+
+    // キャッシュファイルを保存する
+    async save(): Promise<void> {
+        const keys = Object.keys(this.entries);
+        if (keys.length > MAX_ENTRIES) {
+            keys.sort((a, b) => this.entries[a].timestamp - this.entries[b].timestamp)
+                .slice(0, keys.length - MAX_ENTRIES)
+                .forEach(key => delete this.entries[key]);
+        }
+        await this.app.vault.adapter.write(this.cachePath, JSON.stringify({ entries: this.entries }));
+    }
+
+    get size(): number {
+        return Object.keys(this.entries).length;
+    }
+
+    get(key: string): CachedClassification | null {
+        return this.entries[key] || null;
+    }
+
+    set(key: string, prediction: FolderPrediction): void {
+        this.entries[key] = { ...prediction, timestamp: Date.now() };
+    }
+
+    async clear(): Promise<void> {
+        this.entries = {};
+        await this.save();
+    }
+}
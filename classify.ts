@@ -1,6 +1,14 @@
 import { SortInboxSettings } from './settings';
-import { TFile, Vault } from 'obsidian';
-import { ClassificationOptions, ClassificationStatus, GeminiRequest, GeminiResponse, ClassificationSummary } from './types';
+import { CachedMetadata, MetadataCache, TFile, Vault } from 'obsidian';
+import { ClassificationOptions, ClassificationRule, ClassificationStatus, ClassificationSummary, CollisionResolution, EnrichmentOptions, NoteEnrichment, TargetFolderDetail } from './types';
+import { LLMProvider, createProvider } from './providers';
+import { OVERRIDE_PROPERTY, evaluateRules, getFrontmatterOverride, isOptedOut } from './rules';
+import { resolveTargetFolderPath, resolveTargetFolders } from './folders';
+import { FolderExample, sampleFolderExamples } from './examples';
+import { LocalClassifier } from './local';
+import { estimateTokens } from './tokens';
+import { readClassificationContent } from './filetypes';
+import { isEnrichmentEnabled, parseEnrichment } from './enrich';
 
 export interface ClassificationResult {
     file: TFile;
@@ -8,12 +16,44 @@ export interface ClassificationResult {
     success: boolean;
     error?: string;
     status: ClassificationStatus;
+    // ルールで分類された場合は一致したルール
+    matchedRule?: ClassificationRule;
+    // 移動時に同名ファイルと衝突した場合の対応
+    collision?: CollisionResolution;
+    // 分類の確信度（0〜100、モデルが返さなかった場合はundefined）
+    confidence?: number;
+    // モデルが返した判断理由
+    reason?: string;
+    // モデルが生成した要約・キーワード・タグ（設定で有効な場合のみ）
+    enrichment?: NoteEnrichment;    // LLMでの分類に失敗し、ローカル分類器で代替した結果か（キャッシュや再試行の記録には使わない）
+    fromLocalFallback?: boolean;
+}
+
+// LLMの応答から得られた分類先と確信度
+export interface FolderPrediction {
+    folder: string | null;
+    // 0〜100（モデルが返さなかった場合はundefined）
+    confidence?: number;
+    reason?: string;
+    enrichment?: NoteEnrichment;
+    // ローカル分類器で代替した結果か
+    fromLocalFallback?: boolean;
+}
+
+// LLMの応答が解釈できない、または一覧にないフォルダを返した場合のエラー
+export class InvalidClassificationResponseError extends Error {
+    constructor(message: string, public responseText: string | null) {
+        super(message);
+        this.name = 'InvalidClassificationResponseError';
+    }
 }
 
 export interface ClassificationTask {
     file: TFile;
     settings: SortInboxSettings;
     options?: Partial<ClassificationOptions>;
+    // 前回分類できなかったメモを再試行する場合は、キャッシュした結果を使わない
+    ignoreCache?: boolean;
 }
 
 export interface ClassificationBatch {
@@ -23,13 +63,28 @@ export interface ClassificationBatch {
     startTime: number;
 }
 
-export async function classifyFile(file: TFile, settings: SortInboxSettings, vault: Vault): Promise<ClassificationResult> {
+export async function classifyFile(
+    file: TFile,
+    settings: SortInboxSettings,
+    vault: Vault,
+    metadataCache: MetadataCache,
+    localClassifier?: LocalClassifier
+): Promise<ClassificationResult> {
     try {
         // タイトルを取得
         const title = file.basename;
         
-        // ファイルの内容を読み込む
-        const content = await vault.cachedRead(file);
+        // ファイルの内容を読み込む（Markdown以外のファイルは種類に応じた内容）
+        const content = await readClassificationContent(file, vault, metadataCache);
+        
+        // フォルダリストを取得（自動検出モードではVaultのフォルダから検出）
+        const folderList = resolveTargetFolders(settings, vault);
+        
+        // オプトアウト・frontmatterでの指定・ルールで決まる場合はLLMを呼び出さない
+        const preclassified = classifyWithoutLLM(file, content, metadataCache.getFileCache(file), settings, folderList);
+        if (preclassified) {
+            return preclassified;
+        }
         
         // コンテンツの長さを制限（APIのトークン制限に対応）
         const maxLength = settings.classificationOptions.maxContentLength || 1000;
@@ -37,31 +92,50 @@ export async function classifyFile(file: TFile, settings: SortInboxSettings, vau
             ? content.substring(0, maxLength) + "..." 
             : content;
         
-        // フォルダリストを取得
-        const folderList = settings.targetFolders;
-        
-        if (!settings.geminiApiKey) {
-            throw new Error('Gemini APIキーが設定されていません');
+        // ローカル分類器のみを使う設定ではLLMを呼び出さない
+        if (settings.classificationMethod === 'local') {
+            return await classifyWithLocalModel(file, truncatedContent, folderList, settings, localClassifier);
         }
         
-        // プロンプトを構築
-        const prompt = buildPrompt(title, truncatedContent, folderList);
-        
-        // APIリクエストを送信
-        const response = await callGeminiAPI(settings.geminiApiKey, prompt, {
-            timeoutMs: settings.classificationOptions.timeoutMs || 10000,
-            folderList: folderList
-        });
-        
-        // 応答から分類先フォルダを抽出
-        const targetFolder = response;
-        
-        return {
-            file: file,
-            targetFolder: targetFolder,
-            success: true,
-            status: ClassificationStatus.COMPLETED
-        };
+        try {
+            // 設定に応じたLLMプロバイダーを取得
+            const provider = createProvider(settings);
+            const configError = provider.validateConfig();
+            if (configError) {
+                throw new Error(configError);
+            }
+            
+            // プロンプトを構築（各フォルダの既存メモを例として含める。設定で無効な場合は含めない）
+            const folderExamples = await sampleFolderExamples(vault, settings, folderList);
+            // 設定で有効な場合は、要約・キーワード・タグも同じリクエストで生成させる
+            const enrichment = isEnrichmentEnabled(settings.enrichment) ? settings.enrichment : undefined;
+            const prompt = buildPrompt(title, truncatedContent, folderList, settings.folderDetails, folderExamples, settings.promptInstructions, enrichment);
+            
+            // APIリクエストを送信
+            const response = await callClassificationAPI(provider, prompt, {
+                timeoutMs: settings.classificationOptions.timeoutMs || 10000,
+                folderList: folderList,
+                maxOutputTokens: enrichment ? 600 : 200
+            });
+            
+            return {
+                file: file,
+                targetFolder: response.folder,
+                success: true,
+                status: ClassificationStatus.COMPLETED,
+                confidence: response.confidence,
+                reason: response.reason,
+                enrichment: response.enrichment
+            };
+        } catch (error) {
+            // オフライン時やAPIの利用上限に達した場合などはローカル分類器で代替する
+            if (settings.classificationMethod === 'llm-with-local-fallback' && localClassifier) {
+                console.warn('LLMでの分類に失敗したため、ローカル分類器で分類します:', error);
+                const fallbackResult = await classifyWithLocalModel(file, truncatedContent, folderList, settings, localClassifier);
+                return { ...fallbackResult, fromLocalFallback: true };
+            }
+            throw error;
+        }
     } catch (error) {
         console.error('分類処理中にエラーが発生しました:', error);
         return {
@@ -69,14 +143,128 @@ export async function classifyFile(file: TFile, settings: SortInboxSettings, vau
             targetFolder: null,
             success: false,
             error: error instanceof Error ? error.message : String(error),
-            status: ClassificationStatus.FAILED
+            // 応答が解釈できなかった場合は通信エラーなどと区別する
+            status: error instanceof InvalidClassificationResponseError
+                ? ClassificationStatus.INVALID_RESPONSE
+                : ClassificationStatus.FAILED
         };
     }
 }
 
-// Gemini APIに送信するプロンプトを構築する関数
-export function buildPrompt(title: string, content: string, folders: string[]): string {
-    const folderListText = folders.map(folder => `- ${folder}`).join('\n');
+// 一括分類で回答が得られなかったファイルを個別に分類する際の最大リトライ回数
+const INDIVIDUAL_RECLASSIFY_RETRIES = 2;
+
+// ファイルを個別に分類し、不正な応答の場合は回数を限って再試行する関数
+// レート制限やサーバーエラーはスケジューラーが再試行済みで、認証や設定のエラーは再試行しても解決しないため、再試行しない
+export async function classifyFileWithRetry(
+    file: TFile,
+    settings: SortInboxSettings,
+    vault: Vault,
+    metadataCache: MetadataCache,
+    localClassifier?: LocalClassifier,
+    maxRetries: number = INDIVIDUAL_RECLASSIFY_RETRIES
+): Promise<ClassificationResult> {
+    let result = await classifyFile(file, settings, vault, metadataCache, localClassifier);
+    for (let retry = 0; retry < maxRetries && result.status === ClassificationStatus.INVALID_RESPONSE; retry++) {
+        console.warn(`ファイル「${file.basename}」の分類を再試行します（${retry + 1}/${maxRetries}）: ${result.error}`);
+        result = await classifyFile(file, settings, vault, metadataCache, localClassifier);
+    }
+    return result;
+}
+
+// ローカル分類器でファイルを分類する関数
+async function classifyWithLocalModel(
+    file: TFile,
+    content: string,
+    folderList: string[],
+    settings: SortInboxSettings,
+    localClassifier?: LocalClassifier
+): Promise<ClassificationResult> {
+    if (!localClassifier) {
+        throw new Error('ローカル分類器が利用できません');
+    }
+    const prediction = await localClassifier.classify(file.basename, content, folderList, settings);
+    return {
+        file: file,
+        targetFolder: prediction.folder,
+        success: true,
+        status: ClassificationStatus.COMPLETED,
+        confidence: prediction.confidence,
+        reason: prediction.reason
+    };
+}
+
+// LLMを使わずに分類先を決定できる場合はその結果を返す関数
+// 優先順位: オプトアウト（sort-inbox: skip） > frontmatterでの指定（sort-to） > 分類ルール
+export function classifyWithoutLLM(file: TFile, content: string, cache: CachedMetadata | null, settings: SortInboxSettings, targetFolders: string[]): ClassificationResult | null {
+    if (isOptedOut(cache)) {
+        return {
+            file: file,
+            targetFolder: null,
+            success: true,
+            status: ClassificationStatus.SKIPPED
+        };
+    }
+    
+    const override = getFrontmatterOverride(cache);
+    if (override) {
+        // 分類先フォルダの一覧にない指定は移動せず、確認待ちにする
+        const folder = findOverrideFolder(override, settings, targetFolders);
+        return folder ? {
+            file: file,
+            targetFolder: folder,
+            success: true,
+            status: ClassificationStatus.COMPLETED,
+            confidence: 100
+        } : {
+            file: file,
+            targetFolder: null,
+            success: true,
+            status: ClassificationStatus.NEEDS_REVIEW,
+            reason: `${OVERRIDE_PROPERTY}で指定されたフォルダ「${override}」は分類先フォルダの一覧にありません`
+        };
+    }
+    
+    const matchedRule = evaluateRules(settings.rules, file, content, cache, targetFolders);
+    if (matchedRule) {
+        return {
+            file: file,
+            targetFolder: matchedRule.targetFolder,
+            success: true,
+            status: ClassificationStatus.COMPLETED,
+            matchedRule,
+            confidence: 100
+        };
+    }
+    
+    return null;
+}
+
+// frontmatterで指定された分類先と同じ移動先になる分類先フォルダを取得する（見つからなければnull）
+// 「..」を含む指定は、分類先フォルダの外に移動できてしまうため受け付けない
+function findOverrideFolder(override: string, settings: SortInboxSettings, targetFolders: string[]): string | null {
+    if (override.split('/').some(segment => segment.trim() === '..')) {
+        return null;
+    }
+    if (targetFolders.includes(override)) {
+        return override;
+    }
+    const overridePath = resolveTargetFolderPath(settings, override);
+    return targetFolders.find(folder => resolveTargetFolderPath(settings, folder) === overridePath) || null;
+}
+
+// LLMに送信するプロンプトを構築する関数
+export function buildPrompt(
+    title: string,
+    content: string,
+    folders: string[],
+    folderDetails: Record<string, TargetFolderDetail> = {},
+    folderExamples: Record<string, FolderExample[]> = {},
+    instructions = '',
+    enrichment?: EnrichmentOptions
+): string {
+    const folderListText = formatFolderList(folders, folderDetails, folderExamples);
+    const [enrichmentFields, enrichmentNotes] = formatEnrichmentRequest(enrichment);
     
     return `あなたはフォルダ分類アシスタントです。
 
@@ -85,86 +273,130 @@ export function buildPrompt(title: string, content: string, folders: string[]):
 
 ■ フォルダ一覧:
 ${folderListText}
-
+${formatInstructions(instructions)}
 ■ メモのタイトル:
 ${title}
 
 ■ メモの本文:
 ${content}
 
-出力形式（1行）:
-- フォルダ名 または 「分類しない」`;
+■ 出力形式:
+以下の形式のJSONオブジェクトのみを出力してください（説明文やコードブロックは不要です）。
+{"folder": "フォルダ名", "reason": "判断理由（30文字程度）", "confidence": 85${enrichmentFields}}
+- "folder"はフォルダ一覧の表記と完全に一致させてください。どれにも当てはまらない場合はnullにしてください
+- "confidence"は、そのフォルダが正しいと考える度合いを0〜100の整数で表したものです${enrichmentNotes}`;
 }
 
-// Gemini APIリクエスト本文を構築する関数
-export function buildGeminiRequest(prompt: string, options?: Partial<ClassificationOptions>): GeminiRequest {
-    return {
-        contents: [{
-            parts: [{
-                text: prompt
-            }]
-        }],
-        generationConfig: {
-            temperature: 0.1, // 低い温度で一貫性を高める
-            maxOutputTokens: 10, // 短い出力のみを期待
+// 要約・キーワード・タグを出力形式に追加するための、JSONの項目と説明を整形する関数
+function formatEnrichmentRequest(enrichment?: EnrichmentOptions): [string, string] {
+    const fields: string[] = [];
+    const notes: string[] = [];
+    if (enrichment?.summary) {
+        fields.push('"summary": "メモの要約"');
+        notes.push('- "summary"は、メモの内容を1文（50文字程度）で要約したものです');
+    }
+    if (enrichment?.keywords) {
+        fields.push('"keywords": ["キーワード1", "キーワード2"]');
+        notes.push('- "keywords"は、メモの内容を表すキーワード（5件まで）です');
+    }
+    if (enrichment?.tags) {
+        fields.push('"tags": ["タグ1", "タグ2"]');
+        notes.push('- "tags"は、メモに付けるタグの提案（5件まで、「#」や空白を含めない）です');
+    }
+    return [
+        fields.map(field => `, ${field}`).join(''),
+        notes.map(note => `\n${note}`).join('')
+    ];
+}
+
+// ユーザーが設定した追加の指示をプロンプト用のセクションに整形する関数（指示がない場合は空文字）
+function formatInstructions(instructions: string): string {
+    return instructions.trim() ? `\n■ 追加の指示:\n${instructions.trim()}\n` : '';
+}
+
+// フォルダ一覧をプロンプト用のテキストに整形する関数（説明・判断基準・例・既存メモがあれば併記する）
+export function formatFolderList(
+    folders: string[],
+    folderDetails: Record<string, TargetFolderDetail> = {},
+    folderExamples: Record<string, FolderExample[]> = {}
+): string {
+    return folders.map(folder => {
+        const detail = folderDetails[folder];
+        const lines = [detail?.description.trim() ? `- ${folder}: ${detail.description.trim()}` : `- ${folder}`];
+        if (detail) {
+            lines.push(...formatFolderDetail(detail));
         }
-    };
+        // フォルダに既にあるメモのタイトルと抜粋
+        (folderExamples[folder] || []).forEach(example => {
+            lines.push(example.excerpt
+                ? `  - 既存のメモ「${example.title}」: ${example.excerpt}`
+                : `  - 既存のメモ「${example.title}」`);
+        });
+        return lines.join('\n');
+    }).join('\n');
 }
 
-// Gemini APIにリクエストを送信する関数
-export async function callGeminiAPI(apiKey: string, prompt: string, options?: Partial<ClassificationOptions> & { folderList?: string[] }): Promise<string | null> {
-    if (!apiKey) {
-        throw new Error('APIキーが指定されていません');
+// フォルダの判断基準と例をプロンプト用の行に整形する関数
+function formatFolderDetail(detail: TargetFolderDetail): string[] {
+    const lines: string[] = [];
+    if (detail.include.trim()) {
+        lines.push(`  - 含めるもの: ${detail.include.trim()}`);
     }
-    
-    // APIリクエストを構築
-    const request = buildGeminiRequest(prompt, options);
-    
+    if (detail.exclude.trim()) {
+        lines.push(`  - 含めないもの: ${detail.exclude.trim()}`);
+    }
+    // リンク記法を外してノート名だけを例として渡す
+    const examples = detail.examples
+        .map(example => example.trim().replace(/^\[\[|\]\]$/g, '').split('|')[0])
+        .filter(example => example);
+    if (examples.length > 0) {
+        lines.push(`  - 例: ${examples.join('、')}`);
+    }
+    return lines;
+}
+
+// 分類APIにリクエストを送信する関数
+export async function callClassificationAPI(provider: LLMProvider, prompt: string, options?: Partial<ClassificationOptions> & { folderList?: string[], maxOutputTokens?: number }): Promise<FolderPrediction> {
+    let text: string | null;
     try {
-        // Gemini APIにリクエストを送信
-        const response = await sendGeminiAPIRequest(apiKey, request, options);
-        
-        // 応答を解析
-        const targetFolder = parseGeminiResponse(response, options?.folderList || []);
-        return targetFolder;
+        // プロバイダーにリクエストを送信（JSON形式での出力を要求）
+        text = await provider.generate(prompt, {
+            temperature: 0.1, // 低い温度で一貫性を高める
+            maxOutputTokens: options?.maxOutputTokens || 200, // フォルダ名・理由・確信度（と要約などのメタデータ）のみの短い出力を期待
+            json: true,
+        }, options?.timeoutMs);
     } catch (error) {
-        console.error('Gemini API呼び出し中にエラーが発生:', error);
+        console.error(`${provider.displayName} API呼び出し中にエラーが発生:`, error);
         throw new Error('API呼び出しに失敗しました: ' + (error instanceof Error ? error.message : String(error)));
     }
+    
+    // 応答を解析（解釈できない場合はInvalidClassificationResponseErrorを投げる）
+    return parseClassificationResponse(text, options?.folderList || []);
 }
 
-// Gemini APIをテストするための関数
-export async function testGeminiAPI(apiKey: string): Promise<boolean> {
-    if (!apiKey) {
-        throw new Error('APIキーが指定されていません');
+// プロバイダーの接続をテストするための関数
+export async function testProviderConnection(provider: LLMProvider, timeoutMs?: number): Promise<boolean> {
+    const configError = provider.validateConfig();
+    if (configError) {
+        throw new Error(configError);
     }
     
     // テスト用のプロンプト
     const testPrompt = `あなたはフォルダ分類アシスタントです。このテストメッセージに「テスト成功」と応答してください。`;
     
-    // Gemini APIリクエストを構築
-    const request: GeminiRequest = {
-        contents: [{
-            parts: [{
-                text: testPrompt
-            }]
-        }],
-        generationConfig: {
+    try {
+        // 実際にプロバイダーにリクエストを送信
+        const response = await provider.generate(testPrompt, {
             temperature: 0.1,
             maxOutputTokens: 10,
-        }
-    };
-    
-    try {
-        // 実際にGemini APIにリクエストを送信
-        const response = await sendGeminiAPIRequest(apiKey, request);
+        }, timeoutMs);
         
         // 応答を確認
-        if (!response.candidates || response.candidates.length === 0) {
+        if (!response) {
             return false;
         }
         
-        const text = response.candidates[0].content.parts[0].text.trim().toLowerCase();
+        const text = response.trim().toLowerCase();
         const isValid = text.includes('テスト成功') || text.includes('test success');
         
         return isValid;
@@ -174,88 +406,72 @@ export async function testGeminiAPI(apiKey: string): Promise<boolean> {
     }
 }
 
-// Gemini APIの応答から分類先フォルダを抽出する関数
-export function parseGeminiResponse(response: GeminiResponse, targetFolders: string[]): string | null {
-    try {
-        if (!response.candidates || response.candidates.length === 0) {
-            // console.log('Gemini API応答に候補がありません');
-            return null;
-        }
+// LLMのJSON応答から分類先フォルダ・理由・確信度を抽出する関数
+// フォルダ名は分類対象フォルダと完全に一致する必要がある
+export function parseClassificationResponse(response: string | null, targetFolders: string[]): FolderPrediction {
+    if (!response || !response.trim()) {
+        throw new InvalidClassificationResponseError('API応答が空です', response);
+    }
 
-        const text = response.candidates[0].content.parts[0].text.trim();
-        // console.log('Gemini APIからの応答:', text);
-        
-        // 「分類しない」の場合はnullを返す
-        if (text === '分類しない' || text.includes('分類しない')) {
-            return null;
-        }
-        
-        // テキストがフォルダ名リストのいずれかと一致するかチェック
-        for (const folder of targetFolders) {
-            if (text === folder || text.endsWith(folder) || text.includes(folder)) {
-                return folder;
-            }
-        }
-        
-        // 一致するものがなければnullを返す
-        return null;
+    // コードブロックなどで囲まれていてもJSONオブジェクト部分を取り出す
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+        throw new InvalidClassificationResponseError(`JSON形式の応答ではありません: ${response.trim()}`, response);
+    }
+    
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(jsonMatch[0]);
     } catch (error) {
-        console.error('Gemini応答の解析中にエラーが発生:', error);
-        return null;
+        throw new InvalidClassificationResponseError(`JSONを解析できません: ${jsonMatch[0]}`, response);
+    }
+    if (typeof parsed !== 'object' || parsed === null || !('folder' in parsed)) {
+        throw new InvalidClassificationResponseError(`"folder"が含まれていません: ${jsonMatch[0]}`, response);
     }
-}
-
-// 実際のAPIリクエストを送信する関数
-export async function sendGeminiAPIRequest(apiKey: string, requestBody: GeminiRequest, options?: Partial<ClassificationOptions>): Promise<GeminiResponse> {
-    // Gemini 2.0 Flash APIのエンドポイント
-    const apiUrl = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent';
-    const timeoutMs = options?.timeoutMs || 10000;
     
-    // URLにAPIキーをクエリパラメータとして追加
-    const urlWithKey = `${apiUrl}?key=${apiKey}`;
+    const { folder, reason, confidence } = parsed as { folder: unknown; reason?: unknown; confidence?: unknown };
+    const prediction: FolderPrediction = {
+        folder: null,
+        confidence: parseConfidence(confidence),
+        reason: typeof reason === 'string' && reason.trim() ? reason.trim() : undefined,
+        enrichment: parseEnrichment(parsed as Record<string, unknown>)
+    };
     
-    // フェッチタイムアウトを実装
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    // nullまたは「分類しない」の場合は分類しない
+    if (folder === null || folder === '' || folder === '分類しない') {
+        return prediction;
+    }
     
-    try {
-        const response = await fetch(urlWithKey, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(requestBody),
-            signal: controller.signal
-        });
-        
-        // タイムアウトクリア
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`API request failed with status ${response.status}: ${errorText}`);
-        }
-        
-        const data = await response.json();
-        return data as GeminiResponse;
-    } catch (error) {
-        if (error.name === 'AbortError') {
-            throw new Error(`API request timed out after ${timeoutMs}ms`);
-        }
-        throw error;
-    } finally {
-        clearTimeout(timeoutId);
+    if (typeof folder !== 'string' || !targetFolders.includes(folder.trim())) {
+        throw new InvalidClassificationResponseError(`一覧にないフォルダが返されました: ${String(folder)}`, response);
     }
+    
+    prediction.folder = folder.trim();
+    return prediction;
+}
+
+// 確信度を0〜100の整数に正規化する関数（解釈できない場合はundefined）
+export function parseConfidence(value: unknown): number | undefined {
+    const number = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace('%', ''));
+    if (isNaN(number)) {
+        return undefined;
+    }
+    // 0〜1の小数で返された場合は百分率に換算する
+    const percent = number > 0 && number <= 1 && String(value).includes('.') ? number * 100 : number;
+    return Math.round(Math.min(100, Math.max(0, percent)));
 }
 
 // 複数のファイルをバッチで分類する関数
 export async function classifyFileBatch(
     tasks: ClassificationTask[], 
     vault: Vault, 
-    progressCallback?: (current: number, total: number, message: string) => void
+    metadataCache: MetadataCache,
+    progressCallback?: (current: number, total: number, message: string) => void,
+    localClassifier?: LocalClassifier
 ): Promise<ClassificationResult[]> {
     const results: ClassificationResult[] = [];
-    const batchSize = 5; // 一度に処理するファイル数（APIレート制限対策）
+    // 一度に並行して処理するファイル数（送信間隔は共有スケジューラーが1分あたりの上限に合わせて調整する）
+    const batchSize = 5;
     
     try {
         // タスクをバッチに分割
@@ -275,23 +491,11 @@ export async function classifyFileBatch(
             
             // 各バッチを順番に処理
             const batchPromises = batchTasks.map(task => 
-                classifyFile(task.file, task.settings, vault));
+                classifyFile(task.file, task.settings, vault, metadataCache, localClassifier));
             
             // このバッチの処理を完了
             const batchResults = await Promise.all(batchPromises);
             results.push(...batchResults);
-            
-            // APIレート制限対策のため少し待機（1分間に15リクエストの制限対応）
-            if (i + batchSize < tasks.length) {
-                const waitMessage = 'APIレート制限対策のため待機中...';
-                // console.log(waitMessage);
-                
-                if (progressCallback) {
-                    progressCallback(i + batchSize, tasks.length, waitMessage);
-                }
-                
-                await new Promise(resolve => setTimeout(resolve, 2000));
-            }
         }
         
         return results;
@@ -301,137 +505,275 @@ export async function classifyFileBatch(
     }
 }
 
+// 一括分類の結果
+export interface BatchClassificationResult {
+    // オプトアウト・frontmatterでの指定・ルールで決まったファイル（ファイルパス -> 分類結果）
+    preclassified: Map<string, ClassificationResult>;
+    // 分類できたファイル（ファイルパス -> 分類先フォルダと確信度）
+    predictions: Map<string, FolderPrediction>;
+    // API呼び出しや設定のエラーで分類できなかったファイル（ファイルパス -> エラーメッセージ）
+    errors: Map<string, string>;
+}
+
 // 複数ファイルを一度のリクエストでまとめて分類する機能
 export async function batchClassifyFiles(
     files: TFile[], 
     settings: SortInboxSettings, 
-    vault: Vault
-): Promise<Map<string, string | null>> {
-    // 結果を格納するマップ（ファイルパス -> 分類先フォルダ）
-    const results = new Map<string, string | null>();
+    vault: Vault,
+    metadataCache: MetadataCache,
+    localClassifier?: LocalClassifier
+): Promise<BatchClassificationResult> {
+    // 結果を格納するマップ（ファイルパス -> 分類先フォルダと確信度）
+    const results = new Map<string, FolderPrediction>();
+    // API呼び出しや設定のエラーで分類できなかったファイル（ファイルパス -> エラーメッセージ）
+    const errors = new Map<string, string>();
+    // LLMを使わずに分類結果が決まったファイル（一致したルールや状態を保つため、分類結果のまま返す）
+    const preclassifiedResults = new Map<string, ClassificationResult>();
+    
+    // 分類対象フォルダのリスト
+    const folderList = resolveTargetFolders(settings, vault);
+    // LLMに送信するファイルとその内容
+    const contents = new Map<TFile, string>();
+    const remainingFiles: TFile[] = [];
     
     try {
-        if (!settings.geminiApiKey) {
-            throw new Error('Gemini APIキーが設定されていません');
+        // LLMを使わずに分類先が決まるファイルは送信しない
+        for (const file of files) {
+            const content = await readClassificationContent(file, vault, metadataCache);
+            const preclassified = classifyWithoutLLM(file, content, metadataCache.getFileCache(file), settings, folderList);
+            if (preclassified) {
+                preclassifiedResults.set(file.path, preclassified);
+            } else {
+                contents.set(file, content);
+                remainingFiles.push(file);
+            }
         }
         
-        // ファイルIDとTFileオブジェクトのマッピングを作成
-        const fileMap = new Map<string, TFile>();
+        if (remainingFiles.length === 0) {
+            return { preclassified: preclassifiedResults, predictions: results, errors };
+        }
         
-        // 各ファイルの内容を取得
-        const filesData = await Promise.all(
-            files.map(async (file, index) => {
-                const content = await vault.cachedRead(file);
-                // トークン数を削減するため、各ファイル内容を短く切り詰める
-                const maxLength = 300; // 各ファイル300文字までに制限
-                const truncatedContent = content.length > maxLength 
-                    ? content.substring(0, maxLength) + "..." 
-                    : content;
-                
-                // ファイルIDは単純なインデックス（Geminiが返すのはこのIDのみ）
-                const fileId = `file_${index + 1}`;
-                
-                // マッピングを保存
-                fileMap.set(fileId, file);
-                
-                return {
-                    id: fileId,
-                    title: file.basename,
-                    content: truncatedContent
-                };
-            })
-        );
+        // ローカル分類器のみを使う設定ではLLMを呼び出さない
+        if (settings.classificationMethod === 'local') {
+            await classifyRemainingLocally(remainingFiles, contents, folderList, settings, results, localClassifier);
+            return { preclassified: preclassifiedResults, predictions: results, errors };
+        }
+        
+        // 設定に応じたLLMプロバイダーを取得
+        const provider = createProvider(settings);
+        const configError = provider.validateConfig();
+        if (configError) {
+            throw new Error(configError);
+        }
         
-        // 分類対象フォルダのリスト
-        const folderList = settings.targetFolders;
+        // 各フォルダの既存メモを例として含める（設定で無効な場合は空）
+        const folderExamples = await sampleFolderExamples(vault, settings, folderList);
+        const folderListText = formatFolderList(folderList, settings.folderDetails, folderExamples);
         
-        // バッチ用プロンプトを構築
-        const prompt = `あなはフォルダ分類アシスタントです。以下の複数のファイルを、最も適したフォルダに分類してください。
+        // 各ファイルの内容を整形（トークン数を削減するため、各ファイル内容を短く切り詰める）
+        const excerptLength = settings.classificationOptions.batchExcerptLength || 300;
+        const entries: BatchEntry[] = remainingFiles.map(file => {
+            const content = contents.get(file) as string;
+            return {
+                file,
+                title: file.basename,
+                content: content.length > excerptLength
+                    ? content.substring(0, excerptLength) + "..."
+                    : content
+            };
+        });
+        
+        // 入力・出力のトークン予算に収まるようにファイルを分割し、チャンクごとに送信する
+        const chunks = splitBatchEntries(entries, folderListText, folderList, settings);
+        for (let i = 0; i < chunks.length; i++) {
+            try {
+                await classifyBatchChunk(provider, chunks[i], folderListText, folderList, settings, results);
+            } catch (error) {
+                if (error instanceof InvalidClassificationResponseError) {
+                    // 応答が解釈できなかったチャンクのファイルは、回答がなかったものとして個別に分類し直す
+                    console.warn(`バッチ分類: チャンク ${i + 1}/${chunks.length} の応答を解釈できませんでした:`, error);
+                    continue;
+                }
+                // API呼び出しのエラー（スケジューラーによる再試行後）は、チャンク内のファイルをエラーとして記録する
+                console.error(`バッチ分類: チャンク ${i + 1}/${chunks.length} の処理中にエラーが発生:`, error);
+                const message = error instanceof Error ? error.message : String(error);
+                chunks[i].forEach(entry => errors.set(entry.file.path, message));
+            }
+        }
+    } catch (error) {
+        // 設定のエラーなどで送信できなかったファイルをエラーとして記録する
+        console.error('バッチ分類処理中にエラーが発生:', error);
+        const message = error instanceof Error ? error.message : String(error);
+        remainingFiles
+            .filter(file => !results.has(file.path))
+            .forEach(file => errors.set(file.path, message));
+    }
+    
+    // オフライン時やAPIの利用上限に達した場合などはローカル分類器で代替する
+    if (errors.size > 0 && settings.classificationMethod === 'llm-with-local-fallback' && localClassifier) {
+        const failedFiles = remainingFiles.filter(file => errors.has(file.path));
+        try {
+            await classifyRemainingLocally(failedFiles, contents, folderList, settings, results, localClassifier, true);
+            failedFiles.forEach(file => errors.delete(file.path));
+        } catch (localError) {
+            console.error('ローカル分類器での分類中にエラーが発生:', localError);
+        }
+    }
+    
+    return { preclassified: preclassifiedResults, predictions: results, errors };
+}
+
+// ローカル分類器でファイルを分類し、結果マップに追加する関数
+async function classifyRemainingLocally(
+    files: TFile[],
+    contents: Map<TFile, string>,
+    folderList: string[],
+    settings: SortInboxSettings,
+    results: Map<string, FolderPrediction>,
+    localClassifier?: LocalClassifier,
+    fromLocalFallback = false
+): Promise<void> {
+    if (!localClassifier) {
+        throw new Error('ローカル分類器が利用できません');
+    }
+    const maxLength = settings.classificationOptions.maxContentLength || 1000;
+    for (const file of files) {
+        const content = (contents.get(file) || '').substring(0, maxLength);
+        const prediction = await localClassifier.classify(file.basename, content, folderList, settings);
+        results.set(file.path, fromLocalFallback ? { ...prediction, fromLocalFallback } : prediction);
+    }
+} 
+
+// バッチ分類で1つのチャンクに含めるファイル
+interface BatchEntry {
+    file: TFile;
+    title: string;
+    content: string;
+}
+
+// バッチ分類用のプロンプトを構築する関数
+function buildBatchPrompt(folderListText: string, entries: BatchEntry[], instructions = ''): string {
+    return `あなはフォルダ分類アシスタントです。以下の複数のファイルを、最も適したフォルダに分類してください。
 
 ■ 分類先フォルダ一覧:
-${folderList.map(folder => `- ${folder}`).join('\n')}
+${folderListText}
 ※どのフォルダにも当てはまらない場合は「分類しない」と回答してください。
-
+${formatInstructions(instructions)}
 ■ 分類対象のファイル:
-${filesData.map((file, index) => `
-=== ファイル${index + 1} (ID:${file.id}): ${file.title} ===
-${file.content}
-`).join('\n')}
+${entries.map((entry, index) => formatBatchEntry(entry, index)).join('\n')}
 
 ■ 出力形式:
 各ファイルの分類結果を以下の形式でJSON配列として返してください:
 [
-    {"id": "file_1", "folder": "分類先フォルダ名"},
-    {"id": "file_2", "folder": "分類先フォルダ名"},
+    {"id": "file_1", "folder": "分類先フォルダ名", "confidence": 85},
+    {"id": "file_2", "folder": "分類先フォルダ名", "confidence": 60},
     ...
 ]
 ※「分類しない」場合は、"folder"の値を"分類しない"としてください。
+※"confidence"は、そのフォルダが正しいと考える度合いを0〜100の整数で表したものです。
 `;
+}
 
-        // APIリクエストを構築
-        const request: GeminiRequest = {
-            contents: [{
-                parts: [{
-                    text: prompt
-                }]
-            }],
-            generationConfig: {
-                temperature: 0.1,
-                maxOutputTokens: 1024, // 結果が大きくなる可能性があるため増加
-            }
-        };
-        
-        // APIリクエストを送信
-        const response = await sendGeminiAPIRequest(settings.geminiApiKey, request);
-        
-        if (!response.candidates || response.candidates.length === 0) {
-            console.error('バッチ分類: API応答に候補がありません');
-            return results;
-        }
-        
-        // APIレスポンスを取得
-        const responseText = response.candidates[0].content.parts[0].text.trim();
-        // console.log('バッチ分類結果:', responseText);
-        
-        // JSONレスポンスを抽出（テキスト内からJSONを検索）
-        // sフラグを使わずにドット(.)が改行にもマッチするようにする
-        const jsonMatch = responseText.match(/\[\s*\{[\s\S]*\}\s*\]/);
-        if (!jsonMatch) {
-            console.error('バッチ分類: JSON形式の応答を抽出できませんでした');
-            return results;
+// ファイルIDは単純なインデックス（LLMが返すのはこのIDのみ）
+function formatBatchEntry(entry: BatchEntry, index: number): string {
+    return `
+=== ファイル${index + 1} (ID:file_${index + 1}): ${entry.title} ===
+${entry.content}
+`;
+}
+
+// 入力と出力の推定トークン数が予算内に収まるように、ファイルをチャンクに分割する関数
+function splitBatchEntries(entries: BatchEntry[], folderListText: string, folderList: string[], settings: SortInboxSettings): BatchEntry[][] {
+    const inputBudget = settings.classificationOptions.batchInputTokenBudget || 6000;
+    const outputBudget = settings.classificationOptions.batchMaxOutputTokens || 2048;
+    
+    // フォルダ一覧や指示など、チャンクごとに共通する部分のトークン数
+    const baseTokens = estimateTokens(buildBatchPrompt(folderListText, [], settings.promptInstructions));
+    // 1ファイル分の出力（最も長いフォルダ名で見積もる）
+    const longestFolder = folderList.reduce((longest, folder) => folder.length > longest.length ? folder : longest, '分類しない');
+    const outputTokensPerFile = estimateTokens(`{"id": "file_${entries.length}", "folder": "${longestFolder}", "confidence": 100},\n`);
+    
+    const chunks: BatchEntry[][] = [];
+    let current: BatchEntry[] = [];
+    let inputTokens = baseTokens;
+    for (const entry of entries) {
+        const entryTokens = estimateTokens(formatBatchEntry(entry, current.length));
+        const exceeds = inputTokens + entryTokens > inputBudget
+            || (current.length + 1) * outputTokensPerFile > outputBudget;
+        // 1ファイルだけで予算を超える場合も、そのファイル単独のチャンクとして送信する
+        if (exceeds && current.length > 0) {
+            chunks.push(current);
+            current = [];
+            inputTokens = baseTokens;
         }
+        current.push(entry);
+        inputTokens += entryTokens;
+    }
+    if (current.length > 0) {
+        chunks.push(current);
+    }
+    return chunks;
+}
+
+// 1つのチャンクを分類し、結果マップに追加する関数
+async function classifyBatchChunk(
+    provider: LLMProvider,
+    entries: BatchEntry[],
+    folderListText: string,
+    folderList: string[],
+    settings: SortInboxSettings,
+    results: Map<string, FolderPrediction>
+): Promise<void> {
+    // ファイルIDとTFileオブジェクトのマッピングを作成
+    const fileMap = new Map<string, TFile>();
+    entries.forEach((entry, index) => fileMap.set(`file_${index + 1}`, entry.file));
+    
+    // APIリクエストを送信（共有スケジューラーによりレート制限が適用される）
+    const responseText = (await provider.generate(buildBatchPrompt(folderListText, entries, settings.promptInstructions), {
+        temperature: 0.1,
+        maxOutputTokens: settings.classificationOptions.batchMaxOutputTokens || 2048,
+    }, settings.classificationOptions.timeoutMs))?.trim();
+    
+    if (!responseText) {
+        console.error('バッチ分類: API応答に候補がありません');
+        return;
+    }
+    // console.log('バッチ分類結果:', responseText);
+    
+    // JSONレスポンスを抽出（テキスト内からJSONを検索）
+    // sフラグを使わずにドット(.)が改行にもマッチするようにする
+    const jsonMatch = responseText.match(/\[\s*\{[\s\S]*\}\s*\]/);
+    if (!jsonMatch) {
+        console.error('バッチ分類: JSON形式の応答を抽出できませんでした');
+        return;
+    }
+    
+    try {
+        // JSON文字列をパース
+        const jsonResponse = JSON.parse(jsonMatch[0]);
         
-        try {
-            // JSON文字列をパース
-            const jsonResponse = JSON.parse(jsonMatch[0]);
+        // 各ファイルの分類結果を結果マップに追加
+        for (const item of jsonResponse) {
+            const fileId = item.id;
+            const folder = item.folder === '分類しない' ? null : item.folder;
+            const confidence = parseConfidence(item.confidence);
+            
+            // マッピングからファイルを取得
+            const file = fileMap.get(fileId);
             
-            // 各ファイルの分類結果を結果マップに追加
-            for (const item of jsonResponse) {
-                const fileId = item.id;
-                const folder = item.folder === '分類しない' ? null : item.folder;
-                
-                // マッピングからファイルを取得
-                const file = fileMap.get(fileId);
-                
-                if (file) {
-                    // 指定されたフォルダが有効かチェック
-                    if (folder === null || settings.targetFolders.includes(folder)) {
-                        results.set(file.path, folder);
-                    } else {
-                        // 指定されたフォルダが無効な場合、分類しない
-                        results.set(file.path, null);
-                    }
+            if (file) {
+                // 指定されたフォルダが有効かチェック
+                if (folder === null || folderList.includes(folder)) {
+                    results.set(file.path, { folder, confidence });
                 } else {
-                    console.warn(`ファイルID "${fileId}" に対応するファイルが見つかりません`);
+                    // 一覧にないフォルダは回答なしとして扱い、呼び出し元で個別に分類し直す
+                    console.warn(`バッチ分類: ファイルID "${fileId}" に対して一覧にないフォルダ "${item.folder}" が返されました`);
                 }
+            } else {
+                console.warn(`ファイルID "${fileId}" に対応するファイルが見つかりません`);
             }
-        } catch (error) {
-            console.error('バッチ分類: JSON解析エラー', error);
         }
-        
     } catch (error) {
-        console.error('バッチ分類処理中にエラーが発生:', error);
+        console.error('バッチ分類: JSON解析エラー', error);
     }
-    
-    return results;
-} 
\ No newline at end of file
+}
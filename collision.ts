@@ -0,0 +1,100 @@
+import { App, Modal, Setting, Vault, normalizePath } from 'obsidian';
+import { CollisionPolicy, CollisionResolution } from './types';
+
+// 対応方針の表示名
+export const COLLISION_POLICY_LABELS: Record<CollisionPolicy, string> = {
+    suffix: '連番を付けて移動（例：会議メモ 1.md）',
+    timestamp: '日時を付けて移動（例：会議メモ 20240101-093000.md）',
+    skip: '移動せずに残す',
+    prompt: 'その都度確認する',
+};
+
+// 対応方針に従って、衝突しない移動先のパスを決定する（スキップする場合はnull）
+export async function resolveCollisionPath(
+    vault: Vault,
+    folderPath: string,
+    basename: string,
+    extension: string,
+    resolution: CollisionResolution
+): Promise<string | null> {
+    const buildPath = (name: string) => normalizePath(`${folderPath}/${name}.${extension}`);
+
+    switch (resolution) {
+        case 'suffix': {
+            // Obsidianの新規ノートと同じく「名前 1」「名前 2」…と空いている番号を探す
+            let index = 1;
+            while (await vault.adapter.exists(buildPath(`${basename} ${index}`))) {
+                index++;
+            }
+            return buildPath(`${basename} ${index}`);
+        }
+        case 'timestamp': {
+            const path = buildPath(`${basename} ${formatTimestamp(new Date())}`);
+            // 同じ秒に複数回衝突した場合は連番で区別する
+            return (await vault.adapter.exists(path))
+                ? resolveCollisionPath(vault, folderPath, `${basename} ${formatTimestamp(new Date())}`, extension, 'suffix')
+                : path;
+        }
+        case 'skip':
+        default:
+            return null;
+    }
+}
+
+// YYYYMMDD-HHmmss形式の日時文字列
+function formatTimestamp(date: Date): string {
+    const pad = (value: number) => ('0' + value).slice(-2);
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+// 同名ファイルとの衝突時に対応を確認するモーダル
+export class CollisionPromptModal extends Modal {
+    private resolution: CollisionResolution = 'skip';
+    private resolvePromise: ((resolution: CollisionResolution) => void) | null = null;
+
+    constructor(app: App, private fileName: string, private folderPath: string) {
+        super(app);
+    }
+
+    // モーダルを開き、選択された対応を返す（閉じた場合はスキップ）
+    openAndWait(): Promise<CollisionResolution> {
+        return new Promise(resolve => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: '同名のファイルがあります' });
+        contentEl.createEl('p', {
+            text: `「${this.folderPath}」には既に「${this.fileName}」が存在します。どのように移動しますか？`
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('移動せずに残す')
+                .onClick(() => this.choose('skip')))
+            .addButton(button => button
+                .setButtonText('日時を付けて移動')
+                .onClick(() => this.choose('timestamp')))
+            .addButton(button => button
+                .setButtonText('連番を付けて移動')
+                .setCta()
+                .onClick(() => this.choose('suffix')));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        if (this.resolvePromise) {
+            this.resolvePromise(this.resolution);
+            this.resolvePromise = null;
+        }
+    }
+
+    private choose(resolution: CollisionResolution): void {
+        this.resolution = resolution;
+        this.close();
+    }
+}
@@ -0,0 +1,63 @@
+import { App, TFile } from 'obsidian';
+import { EnrichmentOptions, NoteEnrichment } from './types';
+import { addTagToFrontmatter } from './annotate';
+
+// キーワード・タグの最大件数
+const MAX_ITEMS = 5;
+
+// 要約・キーワード・タグのいずれかの生成が有効か
+export function isEnrichmentEnabled(options: EnrichmentOptions | undefined): options is EnrichmentOptions {
+    return !!options && (options.summary || options.keywords || options.tags);
+}
+
+// LLMの応答から要約・キーワード・タグを取り出す（含まれていない場合はundefined）
+export function parseEnrichment(parsed: Record<string, unknown>): NoteEnrichment | undefined {
+    const enrichment: NoteEnrichment = {};
+
+    if (typeof parsed.summary === 'string' && parsed.summary.trim()) {
+        enrichment.summary = parsed.summary.trim().replace(/\s+/g, ' ');
+    }
+    const keywords = parseList(parsed.keywords);
+    if (keywords.length > 0) {
+        enrichment.keywords = keywords;
+    }
+    // タグは「#」を除き、空白を「-」に置き換える
+    const tags = parseList(parsed.tags).map(tag => tag.replace(/^#/, '').replace(/\s+/g, '-')).filter(tag => tag);
+    if (tags.length > 0) {
+        enrichment.tags = tags;
+    }
+
+    return Object.keys(enrichment).length > 0 ? enrichment : undefined;
+}
+
+// 配列またはカンマ区切りの文字列を、重複のない文字列の配列にする
+function parseList(value: unknown): string[] {
+    const items = Array.isArray(value)
+        ? value.filter((item): item is string => typeof item === 'string')
+        : typeof value === 'string' ? value.split(/[,、]/) : [];
+    return items
+        .map(item => item.trim())
+        .filter((item, index, list) => item && list.indexOf(item) === index)
+        .slice(0, MAX_ITEMS);
+}
+
+// 生成した要約・キーワード・タグを設定で有効な項目だけfrontmatterに書き込む
+// 既に値があるプロパティは上書きせず、タグは既存のタグに無いものだけを追加する
+export async function writeEnrichment(app: App, file: TFile, enrichment: NoteEnrichment, options: EnrichmentOptions): Promise<void> {
+    const isEmpty = (value: unknown) => value === undefined || value === null || value === ''
+        || (Array.isArray(value) && value.length === 0);
+
+    await app.fileManager.processFrontMatter(file, (frontmatter) => {
+        const summaryProperty = options.summaryProperty.trim() || 'summary';
+        if (options.summary && enrichment.summary && isEmpty(frontmatter[summaryProperty])) {
+            frontmatter[summaryProperty] = enrichment.summary;
+        }
+        const keywordsProperty = options.keywordsProperty.trim() || 'keywords';
+        if (options.keywords && enrichment.keywords && isEmpty(frontmatter[keywordsProperty])) {
+            frontmatter[keywordsProperty] = enrichment.keywords;
+        }
+        if (options.tags && enrichment.tags) {
+            enrichment.tags.forEach(tag => addTagToFrontmatter(frontmatter, tag));
+        }
+    });
+}
@@ -0,0 +1,70 @@
+import { TFile, Vault } from 'obsidian';
+import type { SortInboxSettings } from './settings';
+import { resolveTargetFolderPath } from './folders';
+import { estimateTokens } from './tokens';
+
+// 分類先フォルダに既にあるメモの例（few-shot用）
+export interface FolderExample {
+    title: string;
+    excerpt: string;
+}
+
+// 1件あたりの抜粋の最大文字数
+const EXCERPT_LENGTH = 120;
+
+// 各分類先フォルダから既存のメモを抜き出し、プロンプトに含める例を作成する
+// 新しく更新されたメモから順に、フォルダごとの件数とトークン予算の範囲内で選ぶ
+export async function sampleFolderExamples(
+    vault: Vault,
+    settings: SortInboxSettings,
+    folders: string[]
+): Promise<Record<string, FolderExample[]>> {
+    const perFolder = settings.classificationOptions.fewShotExamplesPerFolder || 0;
+    const tokenBudget = settings.classificationOptions.fewShotTokenBudget || 800;
+    const examples: Record<string, FolderExample[]> = {};
+    if (perFolder <= 0 || folders.length === 0) {
+        return examples;
+    }
+
+    // フォルダ直下のメモを更新日時の新しい順に取得
+    const markdownFiles = vault.getMarkdownFiles();
+    const candidates = folders.map(folder => {
+        const folderPath = resolveTargetFolderPath(settings, folder);
+        return markdownFiles
+            .filter(file => file.parent?.path === folderPath)
+            .sort((a, b) => b.stat.mtime - a.stat.mtime)
+            .slice(0, perFolder);
+    });
+
+    // 特定のフォルダに偏らないよう、各フォルダから1件ずつ順番に追加する
+    let usedTokens = 0;
+    for (let round = 0; round < perFolder; round++) {
+        for (let i = 0; i < folders.length; i++) {
+            const file = candidates[i][round];
+            if (!file) {
+                continue;
+            }
+            const example = await buildExample(vault, file);
+            const tokens = estimateTokens(example.title + example.excerpt);
+            if (usedTokens + tokens > tokenBudget) {
+                return examples;
+            }
+            usedTokens += tokens;
+            (examples[folders[i]] = examples[folders[i]] || []).push(example);
+        }
+    }
+    return examples;
+}
+
+// メモのタイトルと本文の抜粋を作成する（frontmatterは除く）
+async function buildExample(vault: Vault, file: TFile): Promise<FolderExample> {
+    const content = await vault.cachedRead(file);
+    const body = content
+        .replace(/^---\n[\s\S]*?\n---\n?/, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return {
+        title: file.basename,
+        excerpt: body.length > EXCERPT_LENGTH ? body.substring(0, EXCERPT_LENGTH) + '...' : body
+    };
+}
@@ -0,0 +1,143 @@
+import { MetadataCache, TFile, Vault } from 'obsidian';
+
+// キャンバスのノード（分類に使う項目のみ）
+interface CanvasNode {
+    type: string;
+    text?: string;
+    file?: string;
+    url?: string;
+    label?: string;
+}
+
+// 内容をテキストとして読み込んで分類するファイルの拡張子
+const TEXT_EXTENSIONS = ['md', 'txt', 'canvas', 'csv', 'json', 'html', 'htm', 'xml', 'yaml', 'yml', 'org', 'tex'];
+
+// バイナリファイルの種類の表示名（拡張子がキー）
+const BINARY_TYPE_LABELS: Record<string, string> = {
+    pdf: 'PDF',
+    png: '画像',
+    jpg: '画像',
+    jpeg: '画像',
+    gif: '画像',
+    webp: '画像',
+    svg: '画像',
+    bmp: '画像',
+    mp3: '音声',
+    m4a: '音声',
+    wav: '音声',
+    ogg: '音声',
+    mp4: '動画',
+    mov: '動画',
+    webm: '動画',
+};
+
+// 埋め込んでいるメモとして参照する最大件数
+const MAX_EMBEDDING_NOTES = 3;
+
+// 埋め込んでいるメモの抜粋の最大文字数
+const EMBEDDING_EXCERPT_LENGTH = 150;
+
+// 分類対象にするファイルか（Markdownと、設定で指定したMarkdown以外の拡張子）
+export function isClassifiableFile(file: TFile, extensions: string[]): boolean {
+    const extension = file.extension.toLowerCase();
+    return extension === 'md' || extensions.some(ext => ext.trim().replace(/^\./, '').toLowerCase() === extension);
+}
+
+// 内容をテキストとして読み込めるファイルか
+export function isTextFile(file: TFile): boolean {
+    return TEXT_EXTENSIONS.includes(file.extension.toLowerCase());
+}
+
+// 分類に使うファイルの内容を取得する
+// テキスト形式のファイルはその内容、バイナリファイルはファイル名・種類・サイズと埋め込んでいるメモの抜粋から作成する
+export async function readClassificationContent(file: TFile, vault: Vault, metadataCache: MetadataCache): Promise<string> {
+    if (file.extension === 'md') {
+        return vault.cachedRead(file);
+    }
+    if (file.extension === 'canvas') {
+        return extractCanvasText(await vault.cachedRead(file));
+    }
+    if (isTextFile(file)) {
+        return vault.cachedRead(file);
+    }
+    return describeBinaryFile(file, vault, metadataCache);
+}
+
+// キャンバスのJSONから、カード・埋め込んだファイル・リンク・グループのテキストを取り出す
+function extractCanvasText(json: string): string {
+    try {
+        const canvas: unknown = JSON.parse(json);
+        const nodes = isRecord(canvas) && Array.isArray(canvas.nodes) ? canvas.nodes.filter(isCanvasNode) : [];
+        return nodes
+            .map(node => {
+                switch (node.type) {
+                    case 'text': return node.text;
+                    case 'file': return node.file ? `ファイル: ${node.file}` : '';
+                    case 'link': return node.url ? `リンク: ${node.url}` : '';
+                    case 'group': return node.label ? `グループ: ${node.label}` : '';
+                    default: return '';
+                }
+            })
+            .filter((text): text is string => typeof text === 'string' && text.trim() !== '')
+            .join('\n');
+    } catch (error) {
+        // 解釈できない場合はそのまま返す
+        return json;
+    }
+}
+
+// オブジェクトか
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+// キャンバスのノードとして扱えるか（種類が文字列で、各項目が文字列または未指定）
+function isCanvasNode(value: unknown): value is CanvasNode {
+    if (!isRecord(value) || typeof value.type !== 'string') {
+        return false;
+    }
+    return ['text', 'file', 'url', 'label'].every(key => value[key] === undefined || typeof value[key] === 'string');
+}
+
+// バイナリファイルの分類用の説明文を作成する
+async function describeBinaryFile(file: TFile, vault: Vault, metadataCache: MetadataCache): Promise<string> {
+    const extension = file.extension.toLowerCase();
+    const lines = [
+        `ファイル名: ${file.name}`,
+        `種類: ${BINARY_TYPE_LABELS[extension] || 'ファイル'}（.${extension}）`,
+        `サイズ: ${formatFileSize(file.stat.size)}`,
+    ];
+
+    // このファイルを埋め込んで（またはリンクして）いるメモの内容を手がかりにする
+    const sources = Object.keys(metadataCache.resolvedLinks)
+        .filter(source => metadataCache.resolvedLinks[source][file.path])
+        .slice(0, MAX_EMBEDDING_NOTES);
+    if (sources.length > 0) {
+        lines.push('このファイルを埋め込んでいるメモ:');
+        for (const source of sources) {
+            const note = vault.getAbstractFileByPath(source);
+            if (!(note instanceof TFile)) {
+                continue;
+            }
+            const body = (await vault.cachedRead(note))
+                .replace(/^---\n[\s\S]*?\n---\n?/, '')
+                .replace(/\s+/g, ' ')
+                .trim();
+            const excerpt = body.length > EMBEDDING_EXCERPT_LENGTH ? body.substring(0, EMBEDDING_EXCERPT_LENGTH) + '...' : body;
+            lines.push(excerpt ? `- 「${note.basename}」: ${excerpt}` : `- 「${note.basename}」`);
+        }
+    }
+
+    return lines.join('\n');
+}
+
+// ファイルサイズを読みやすい単位に整形する
+function formatFileSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
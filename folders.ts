@@ -0,0 +1,77 @@
+import { TFolder, Vault, normalizePath } from 'obsidian';
+import type { SortInboxSettings } from './settings';
+import { FolderDiscoveryOptions } from './types';
+import { matchesAnyGlob } from './glob';
+
+// 監視対象フォルダのパスを正規化する（末尾のスラッシュを除去）
+export function normalizeFolderPath(path: string): string {
+    const trimmed = path.trim().replace(/[\/\\]+$/, '');
+    return trimmed ? normalizePath(trimmed) : '';
+}
+
+// Vault内の既存フォルダから分類対象フォルダを検出する
+// 戻り値はVaultのルートからのフルパス（例：Projects/Alpha）
+export function discoverTargetFolders(vault: Vault, options: FolderDiscoveryOptions, inboxFolder: string): string[] {
+    const root = normalizeFolderPath(options.root);
+    const inboxPath = normalizeFolderPath(inboxFolder);
+    const maxDepth = Math.max(1, options.maxDepth);
+    const rootDepth = root ? root.split('/').length : 0;
+
+    return vault.getAllLoadedFiles()
+        .filter((file): file is TFolder => file instanceof TFolder)
+        .map(folder => folder.path)
+        .filter(path => {
+            // ルート自身とルート外のフォルダは対象外
+            if (!path || path === '/' || path === root) {
+                return false;
+            }
+            if (root && !path.startsWith(root + '/')) {
+                return false;
+            }
+            // 隠しフォルダ（.obsidianなど）は対象外
+            if (path.split('/').some(segment => segment.startsWith('.'))) {
+                return false;
+            }
+            // 監視対象フォルダとその配下は分類先にしない
+            if (inboxPath && (path === inboxPath || path.startsWith(inboxPath + '/'))) {
+                return false;
+            }
+            if (path.split('/').length - rootDepth > maxDepth) {
+                return false;
+            }
+            if (options.include.some(pattern => pattern.trim()) && !matchesAnyGlob(path, options.include)) {
+                return false;
+            }
+            return !matchesAnyGlob(path, options.exclude);
+        })
+        .sort((a, b) => a.localeCompare(b));
+}
+
+// 設定に応じた分類対象フォルダの一覧を取得する
+export function resolveTargetFolders(settings: SortInboxSettings, vault: Vault): string[] {
+    if (settings.targetFolderSource === 'vault') {
+        return discoverTargetFolders(vault, settings.folderDiscovery, settings.inboxFolder);
+    }
+    return settings.targetFolders;
+}
+
+// 分類先フォルダの実際の移動先パスを取得する
+// 優先順位: 自動検出したフォルダ（Vaultのフルパス） > 移動先パスの個別指定 > 「/」で始まるVault絶対パス > 監視対象フォルダからの相対パス
+export function resolveTargetFolderPath(settings: SortInboxSettings, targetFolder: string): string {
+    if (settings.targetFolderSource === 'vault') {
+        return normalizePath(targetFolder);
+    }
+
+    const destination = settings.folderDetails[targetFolder]?.destination?.trim();
+    if (destination) {
+        return normalizePath(destination);
+    }
+
+    if (targetFolder.startsWith('/')) {
+        return normalizePath(targetFolder);
+    }
+
+    // 既存の設定との互換性のため、それ以外は監視対象フォルダの直下とする
+    const inboxPath = normalizeFolderPath(settings.inboxFolder);
+    return normalizePath(inboxPath ? `${inboxPath}/${targetFolder}` : targetFolder);
+}
@@ -0,0 +1,50 @@
+// グロブパターンを正規表現に変換する
+// 「**」は「/」を含む任意の文字列、「*」は「/」を含まない任意の文字列、「?」は任意の1文字に一致する
+export function globToRegExp(pattern: string): RegExp {
+    let regex = '';
+    const normalized = pattern.trim().replace(/^\/+|\/+$/g, '');
+
+    for (let i = 0; i < normalized.length; i++) {
+        const char = normalized[i];
+        if (char === '*') {
+            if (normalized[i + 1] === '*') {
+                // 「**/」は0個以上のフォルダ階層に一致する
+                if (normalized[i + 2] === '/') {
+                    regex += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    regex += '.*';
+                    i += 1;
+                }
+            } else {
+                regex += '[^/]*';
+            }
+        } else if (char === '?') {
+            regex += '[^/]';
+        } else {
+            regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${regex}$`);
+}
+
+// パスがいずれかのグロブパターンに一致するか
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+    return patterns
+        .filter(pattern => pattern.trim())
+        .some(pattern => globToRegExp(pattern).test(path));
+}
+
+// 対象・除外のグロブパターンでパスを絞り込む（対象のパターンが空の場合はすべて対象）
+// 「!」で始まるパターンは、どちらのリストにあっても除外として扱う（例：!**/templates/**）
+export function matchesGlobFilter(path: string, include: string[], exclude: string[]): boolean {
+    const isNegated = (pattern: string) => pattern.trim().startsWith('!');
+    const includePatterns = include.filter(pattern => pattern.trim() && !isNegated(pattern));
+    const excludePatterns = [...include.filter(isNegated), ...exclude].map(pattern => pattern.trim().replace(/^!/, ''));
+
+    if (includePatterns.length > 0 && !matchesAnyGlob(path, includePatterns)) {
+        return false;
+    }
+    return !matchesAnyGlob(path, excludePatterns);
+}
@@ -0,0 +1,202 @@
+import { ItemView, Notice, TFile, WorkspaceLeaf } from 'obsidian';
+import { MoveJournal } from './journal';
+import { ClassificationHistoryItem, ClassificationRun, ClassificationStatus } from './types';
+
+export const VIEW_TYPE_HISTORY = 'sort-inbox-history';
+
+// ステータスの表示名
+const STATUS_LABELS: Record<string, string> = {
+    [ClassificationStatus.COMPLETED]: '分類済み',
+    [ClassificationStatus.SKIPPED]: 'スキップ',
+    [ClassificationStatus.FAILED]: 'エラー',
+    [ClassificationStatus.NEEDS_REVIEW]: '確認待ち',
+    [ClassificationStatus.INVALID_RESPONSE]: '不正な応答',
+};
+
+// 履歴の絞り込み条件
+interface HistoryFilter {
+    status: string;
+    folder: string;
+    // YYYY-MM-DD形式（空文字は指定なし）
+    from: string;
+    to: string;
+}
+
+// 分類の実行履歴とファイルごとの結果を表示するサイドバービュー
+export class ClassificationHistoryView extends ItemView {
+    private filter: HistoryFilter = { status: '', folder: '', from: '', to: '' };
+    private listEl: HTMLElement;
+
+    constructor(leaf: WorkspaceLeaf, private journal: MoveJournal) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_HISTORY;
+    }
+
+    getDisplayText(): string {
+        return '分類履歴';
+    }
+
+    getIcon(): string {
+        return 'history';
+    }
+
+    async onOpen() {
+        // ジャーナルが更新されたら再描画
+        this.registerEvent(this.journal.on('changed', () => this.render()));
+        this.render();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    // ビュー全体を描画する
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('sort-inbox-history');
+
+        this.renderFilters(contentEl);
+        this.listEl = contentEl.createDiv('sort-inbox-history-list');
+        this.renderRuns();
+    }
+
+    // 絞り込み条件の入力欄を描画する
+    private renderFilters(containerEl: HTMLElement): void {
+        const filtersEl = containerEl.createDiv('sort-inbox-history-filters');
+
+        // ステータス
+        const statusEl = filtersEl.createEl('select', { cls: 'dropdown' });
+        statusEl.createEl('option', { value: '', text: 'すべてのステータス' });
+        Object.keys(STATUS_LABELS).forEach(status => statusEl.createEl('option', { value: status, text: STATUS_LABELS[status] }));
+        statusEl.value = this.filter.status;
+        statusEl.addEventListener('change', () => {
+            this.filter.status = statusEl.value;
+            this.renderRuns();
+        });
+
+        // 分類先フォルダ（履歴に登場するフォルダから選択）
+        const folders = new Set<string>();
+        this.journal.getRuns().forEach(run => run.items.forEach(item => {
+            if (item.targetFolder) {
+                folders.add(item.targetFolder);
+            }
+        }));
+        const folderEl = filtersEl.createEl('select', { cls: 'dropdown' });
+        folderEl.createEl('option', { value: '', text: 'すべての分類先' });
+        Array.from(folders).sort().forEach(folder => folderEl.createEl('option', { value: folder, text: folder }));
+        folderEl.value = this.filter.folder;
+        folderEl.addEventListener('change', () => {
+            this.filter.folder = folderEl.value;
+            this.renderRuns();
+        });
+
+        // 期間
+        const dateEl = filtersEl.createDiv('sort-inbox-history-dates');
+        const fromEl = dateEl.createEl('input', { type: 'date' });
+        fromEl.value = this.filter.from;
+        dateEl.createSpan({ text: '〜' });
+        const toEl = dateEl.createEl('input', { type: 'date' });
+        toEl.value = this.filter.to;
+        fromEl.addEventListener('change', () => {
+            this.filter.from = fromEl.value;
+            this.renderRuns();
+        });
+        toEl.addEventListener('change', () => {
+            this.filter.to = toEl.value;
+            this.renderRuns();
+        });
+    }
+
+    // 絞り込み条件に一致する実行と結果を描画する
+    private renderRuns(): void {
+        this.listEl.empty();
+
+        const runs = this.journal.getRuns()
+            .filter(run => this.matchesDate(run))
+            .map(run => ({ run, items: run.items.filter(item => this.matchesItem(item)) }))
+            .filter(entry => entry.items.length > 0);
+
+        if (runs.length === 0) {
+            this.listEl.createDiv({ cls: 'sort-inbox-history-empty', text: '該当する履歴がありません' });
+            return;
+        }
+
+        for (const { run, items } of runs) {
+            const runEl = this.listEl.createDiv('sort-inbox-history-run');
+            const headerEl = runEl.createDiv('sort-inbox-history-run-header');
+            headerEl.createSpan({ text: new Date(run.startedAt).toLocaleString() });
+            if (run.undoneAt) {
+                headerEl.createSpan({ cls: 'sort-inbox-history-undone', text: '元に戻し済み' });
+            }
+
+            for (const item of items) {
+                this.renderItem(runEl, run, item);
+            }
+        }
+    }
+
+    // 1ファイル分の結果を描画する
+    private renderItem(runEl: HTMLElement, run: ClassificationRun, item: ClassificationHistoryItem): void {
+        const itemEl = runEl.createDiv(`sort-inbox-history-item is-${item.status}`);
+
+        const titleEl = itemEl.createEl('a', { cls: 'sort-inbox-history-file', text: item.file });
+        titleEl.addEventListener('click', () => this.openItem(run, item));
+
+        itemEl.createSpan({ cls: 'sort-inbox-history-status', text: STATUS_LABELS[item.status] || item.status });
+
+        if (item.targetFolder) {
+            itemEl.createDiv({ cls: 'sort-inbox-history-detail', text: `→ ${item.targetFolder}` });
+        }
+        if (item.attachmentOf) {
+            itemEl.createDiv({ cls: 'sort-inbox-history-detail', text: `添付ファイルとして「${item.attachmentOf}」と一緒に移動` });
+        }
+        if (item.collision && item.collision !== 'skip') {
+            itemEl.createDiv({
+                cls: 'sort-inbox-history-detail',
+                text: `同名ファイルがあったため${item.collision === 'suffix' ? '連番' : '日時'}を付けて移動`
+            });
+        }
+        if (item.error) {
+            itemEl.createDiv({ cls: 'sort-inbox-history-detail mod-error', text: item.error });
+        }
+    }
+
+    // 結果に対応するノートを開く（元に戻した実行は元のパスを参照する）
+    private async openItem(run: ClassificationRun, item: ClassificationHistoryItem): Promise<void> {
+        const path = item.newPath && !run.undoneAt ? item.newPath : item.originalPath;
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            new Notice(`「${path}」が見つかりません（その後に移動または削除された可能性があります）`);
+            return;
+        }
+        await this.app.workspace.getLeaf(false).openFile(file);
+    }
+
+    private matchesItem(item: ClassificationHistoryItem): boolean {
+        if (this.filter.status && item.status !== this.filter.status) {
+            return false;
+        }
+        if (this.filter.folder && item.targetFolder !== this.filter.folder) {
+            return false;
+        }
+        return true;
+    }
+
+    private matchesDate(run: ClassificationRun): boolean {
+        const date = new Date(run.startedAt);
+        // ローカル日付をYYYY-MM-DD形式で比較する
+        const pad = (value: number) => ('0' + value).slice(-2);
+        const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+        if (this.filter.from && day < this.filter.from) {
+            return false;
+        }
+        if (this.filter.to && day > this.filter.to) {
+            return false;
+        }
+        return true;
+    }
+}
@@ -0,0 +1,187 @@
+import { App, Events, FuzzySuggestModal, TFile, TFolder, normalizePath } from 'obsidian';
+import { ClassificationHistoryItem, ClassificationRun, ClassificationStatus } from './types';
+
+// 保持する実行履歴の最大数
+const MAX_JOURNAL_RUNS = 100;
+
+// 元に戻す処理の結果
+export interface UndoResult {
+    restoredFiles: number;
+    failedFiles: number;
+    removedFolders: number;
+}
+
+// ファイル移動の履歴を実行単位で永続化するジャーナル
+// 保存のたびに'changed'イベントを発火する
+export class MoveJournal extends Events {
+    private runs: ClassificationRun[] = [];
+
+    constructor(private app: App, private journalPath: string) {
+        super();
+    }
+
+    // ジャーナルファイルを読み込む
+    async load(): Promise<void> {
+        try {
+            if (await this.app.vault.adapter.exists(this.journalPath)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.journalPath));
+                this.runs = Array.isArray(data.runs) ? data.runs : [];
+            }
+        } catch (error) {
+            console.error('ジャーナルの読み込み中にエラーが発生:', error);
+            this.runs = [];
+        }
+    }
+
+    // ジャーナルファイルを保存する
+    async save(): Promise<void> {
+        // 上限を超えた場合は、元に戻せない実行を古いものから先に削除する
+        // （自動分類で移動のない実行が続いても、元に戻せる実行が押し出されないため）
+        let excess = this.runs.length - MAX_JOURNAL_RUNS;
+        if (excess > 0) {
+            const removed = new Set<ClassificationRun>();
+            for (const run of this.runs) {
+                if (removed.size >= excess) {
+                    break;
+                }
+                // 実行中の実行は、記録中のため削除しない
+                if (run.finishedAt && !isUndoable(run)) {
+                    removed.add(run);
+                }
+            }
+            this.runs = this.runs.filter(run => !removed.has(run));
+            excess -= removed.size;
+            if (excess > 0) {
+                this.runs = this.runs.slice(excess);
+            }
+        }
+        await this.app.vault.adapter.write(this.journalPath, JSON.stringify({ runs: this.runs }, null, 2));
+        this.trigger('changed');
+    }
+
+    // 実行履歴を新しい順で取得する
+    getRuns(): ClassificationRun[] {
+        return [...this.runs].reverse();
+    }
+
+    // 元に戻せる（移動があり、まだ元に戻していない）最新の実行を取得する
+    getLastUndoableRun(): ClassificationRun | null {
+        return this.getRuns().find(run => isUndoable(run)) || null;
+    }
+
+    // 新しい実行を開始する
+    startRun(): ClassificationRun {
+        const startedAt = Date.now();
+        const run: ClassificationRun = {
+            id: `${startedAt.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+            startedAt,
+            items: [],
+            createdFolders: []
+        };
+        this.runs.push(run);
+        return run;
+    }
+
+    // 実行を終了して保存する（記録が一件もない実行は破棄する）
+    async finishRun(run: ClassificationRun): Promise<void> {
+        run.finishedAt = Date.now();
+        if (run.items.length === 0) {
+            this.runs = this.runs.filter(r => r !== run);
+        }
+        await this.save();
+    }
+
+    // ファイルの処理結果を記録する
+    recordItem(run: ClassificationRun, item: Omit<ClassificationHistoryItem, 'timestamp'>): void {
+        run.items.push({ ...item, timestamp: Date.now() });
+    }
+
+    // 実行中に作成したフォルダを記録する
+    recordCreatedFolder(run: ClassificationRun, folderPath: string): void {
+        if (!run.createdFolders.includes(folderPath)) {
+            run.createdFolders.push(folderPath);
+        }
+    }
+
+    // 実行で移動したファイルを元の場所に戻す
+    async undoRun(run: ClassificationRun): Promise<UndoResult> {
+        const result: UndoResult = { restoredFiles: 0, failedFiles: 0, removedFolders: 0 };
+        const movedItems = run.items.filter(item => item.status === ClassificationStatus.COMPLETED && item.newPath);
+
+        // 後に移動したものから順に戻す
+        for (const item of [...movedItems].reverse()) {
+            try {
+                const file = this.app.vault.getAbstractFileByPath(item.newPath as string);
+                if (!(file instanceof TFile)) {
+                    throw new Error(`「${item.newPath}」が見つかりません`);
+                }
+                if (this.app.vault.getAbstractFileByPath(item.originalPath)) {
+                    throw new Error(`「${item.originalPath}」に同名のファイルが既に存在します`);
+                }
+
+                // 元のフォルダが削除されている場合は作り直す
+                const originalFolder = item.originalPath.includes('/')
+                    ? item.originalPath.substring(0, item.originalPath.lastIndexOf('/'))
+                    : '';
+                if (originalFolder && !(await this.app.vault.adapter.exists(originalFolder))) {
+                    await this.app.vault.createFolder(originalFolder);
+                }
+
+                await this.app.fileManager.renameFile(file, item.originalPath);
+                result.restoredFiles++;
+            } catch (error) {
+                console.error(`ファイル「${item.file}」を元に戻す際にエラーが発生:`, error);
+                result.failedFiles++;
+            }
+        }
+
+        // 作成したフォルダが空になっていれば、深い階層から順に削除する
+        const folders = [...run.createdFolders].sort((a, b) => b.split('/').length - a.split('/').length);
+        for (const folderPath of folders) {
+            const folder = this.app.vault.getAbstractFileByPath(normalizePath(folderPath));
+            if (folder instanceof TFolder && folder.children.length === 0) {
+                try {
+                    await this.app.vault.delete(folder);
+                    result.removedFolders++;
+                } catch (error) {
+                    console.error(`フォルダ「${folderPath}」の削除中にエラーが発生:`, error);
+                }
+            }
+        }
+
+        run.undoneAt = Date.now();
+        await this.save();
+        return result;
+    }
+}
+
+// 元に戻せる実行かどうか
+export function isUndoable(run: ClassificationRun): boolean {
+    return !run.undoneAt && run.items.some(item => item.status === ClassificationStatus.COMPLETED && item.newPath);
+}
+
+// 実行の表示用ラベル
+export function formatRunLabel(run: ClassificationRun): string {
+    const movedCount = run.items.filter(item => item.status === ClassificationStatus.COMPLETED && item.newPath).length;
+    return `${new Date(run.startedAt).toLocaleString()} - ${movedCount}ファイルを移動`;
+}
+
+// 元に戻す実行を選択するモーダル
+export class UndoRunSuggestModal extends FuzzySuggestModal<ClassificationRun> {
+    constructor(app: App, private runs: ClassificationRun[], private onChoose: (run: ClassificationRun) => void) {
+        super(app);
+        this.setPlaceholder('元に戻す分類の実行を選択');
+    }
+
+    getItems(): ClassificationRun[] {
+        return this.runs;
+    }
+
+    getItemText(run: ClassificationRun): string {
+        return formatRunLabel(run);
+    }
+
+    onChooseItem(run: ClassificationRun): void {
+        this.onChoose(run);
+    }
+}
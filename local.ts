@@ -0,0 +1,147 @@
+import { TFile, Vault } from 'obsidian';
+import type { SortInboxSettings } from './settings';
+import type { FolderPrediction } from './classify';
+import { ClassificationMethod } from './types';
+import { resolveTargetFolderPath } from './folders';
+
+// 分類方法の表示名
+export const CLASSIFICATION_METHOD_LABELS: Record<ClassificationMethod, string> = {
+    'llm': 'AI（LLM）で分類',
+    'local': 'ローカル分類器で分類（オフライン）',
+    'llm-with-local-fallback': 'AIで分類し、失敗した場合はローカル分類器を使う',
+};
+
+// 1ファイルあたりに読み込む最大文字数（インデックスの構築時間とメモリ使用量を抑える）
+const MAX_DOCUMENT_LENGTH = 3000;
+
+// 単語 -> 出現回数
+type TermCounts = Map<string, number>;
+
+// テキストを単語に分割する
+// 英数字は単語単位、日本語などの分かち書きのない文字列は2文字ずつ（bi-gram）に区切る
+export function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const normalized = text.toLowerCase();
+
+    (normalized.match(/[a-z0-9][a-z0-9_-]+/g) || []).forEach(word => tokens.push(word));
+    (normalized.match(/[぀-ヿ㐀-䶿一-鿿]+/g) || []).forEach(run => {
+        if (run.length === 1) {
+            tokens.push(run);
+        }
+        for (let i = 0; i < run.length - 1; i++) {
+            tokens.push(run.substring(i, i + 2));
+        }
+    });
+    return tokens;
+}
+
+function countTerms(tokens: string[]): TermCounts {
+    const counts: TermCounts = new Map();
+    tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+    return counts;
+}
+
+// 分類先フォルダにある既存のメモを元に、TF-IDFの類似度でメモを分類するローカル分類器
+// 読み込んだメモの単語はキャッシュし、メモが変更・移動・削除されたらそのメモのみ読み直す
+export class LocalClassifier {
+    private documents = new Map<string, TermCounts>();
+    // フォルダごとに集計した単語（分類先フォルダのパスの組み合わせがキー）
+    private folderTermsCache: { key: string; terms: TermCounts[] } | null = null;
+
+    constructor(private vault: Vault) {}
+
+    // メモの作成・変更・移動・削除時にキャッシュを破棄する（次回の分類時に読み直す）
+    invalidate(path: string): void {
+        this.documents.delete(path);
+        this.folderTermsCache = null;
+    }
+
+    // メモに最も近いフォルダを返す（どのフォルダとも類似しなければnull）
+    async classify(title: string, content: string, folders: string[], settings: SortInboxSettings): Promise<FolderPrediction> {
+        const folderTerms = await this.buildFolderTerms(folders, settings);
+
+        // フォルダを1つの文書とみなしてIDFを計算する
+        const documentFrequency: TermCounts = new Map();
+        folderTerms.forEach(terms => terms.forEach((_, term) => {
+            documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }));
+        const idf = (term: string) => Math.log((folders.length + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+
+        const query = toTfIdf(countTerms(tokenize(`${title}\n${content.substring(0, MAX_DOCUMENT_LENGTH)}`)), idf);
+        const scores = folders
+            .map((folder, i) => ({ folder, score: cosineSimilarity(query, toTfIdf(folderTerms[i], idf)) }))
+            .sort((a, b) => b.score - a.score);
+
+        const best = scores[0];
+        if (!best || best.score <= 0) {
+            return { folder: null, reason: 'ローカル分類: 類似するフォルダがありません' };
+        }
+        // 2番目の候補との差が大きいほど確信度を高くする
+        const second = scores.length > 1 ? scores[1].score : 0;
+        return {
+            folder: best.folder,
+            confidence: Math.round(100 * best.score / (best.score + second)),
+            reason: `ローカル分類: 類似度 ${best.score.toFixed(2)}`
+        };
+    }
+
+    // 分類先フォルダごとに、フォルダ内のメモの単語の出現回数を合計する
+    private async buildFolderTerms(folders: string[], settings: SortInboxSettings): Promise<TermCounts[]> {
+        const folderPaths = folders.map(folder => resolveTargetFolderPath(settings, folder));
+        const cacheKey = folderPaths.join('\n');
+        if (this.folderTermsCache && this.folderTermsCache.key === cacheKey) {
+            return this.folderTermsCache.terms;
+        }
+        const folderTerms: TermCounts[] = folders.map(() => new Map());
+
+        for (const file of this.vault.getMarkdownFiles()) {
+            // 入れ子になった分類先がある場合は最も深いフォルダに含める
+            let index = -1;
+            folderPaths.forEach((folderPath, i) => {
+                if (file.path.startsWith(folderPath + '/') && (index === -1 || folderPath.length > folderPaths[index].length)) {
+                    index = i;
+                }
+            });
+            if (index === -1) {
+                continue;
+            }
+            const terms = await this.getDocumentTerms(file);
+            terms.forEach((count, term) => folderTerms[index].set(term, (folderTerms[index].get(term) || 0) + count));
+        }
+        this.folderTermsCache = { key: cacheKey, terms: folderTerms };
+        return folderTerms;
+    }
+
+    private async getDocumentTerms(file: TFile): Promise<TermCounts> {
+        const cached = this.documents.get(file.path);
+        if (cached) {
+            return cached;
+        }
+        const content = await this.vault.cachedRead(file);
+        const terms = countTerms(tokenize(`${file.basename}\n${content.substring(0, MAX_DOCUMENT_LENGTH)}`));
+        this.documents.set(file.path, terms);
+        return terms;
+    }
+}
+
+// 出現回数をTF-IDFの重みに変換する（TFは対数で抑える）
+function toTfIdf(counts: TermCounts, idf: (term: string) => number): Map<string, number> {
+    const vector = new Map<string, number>();
+    counts.forEach((count, term) => vector.set(term, (1 + Math.log(count)) * idf(term)));
+    return vector;
+}
+
+function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    a.forEach((weight, term) => {
+        normA += weight * weight;
+        const other = b.get(term);
+        if (other !== undefined) {
+            dot += weight * other;
+        }
+    });
+    b.forEach(weight => normB += weight * weight);
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
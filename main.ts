@@ -1,17 +1,63 @@
 import { Plugin, TFile, Notice, normalizePath } from 'obsidian';
 import { SortInboxSettings, DEFAULT_SETTINGS } from './settings';
 import { SortInboxSettingTab } from './settings';
-import { classifyFile, ClassificationResult, ClassificationBatch, classifyFileBatch, batchClassifyFiles } from './classify';
-import { ClassificationStatus, ClassificationSummary } from './types';
+import { classifyFile, ClassificationResult, ClassificationBatch, ClassificationTask, classifyFileBatch, batchClassifyFiles, classifyFileWithRetry, FolderPrediction } from './classify';
+import { ClassificationRun, ClassificationStatus, ClassificationSummary, CollisionResolution, MoveOutcome } from './types';
+import { CollisionPromptModal, resolveCollisionPath } from './collision';
+import { MoveJournal, UndoRunSuggestModal, isUndoable } from './journal';
+import { ClassificationHistoryView, VIEW_TYPE_HISTORY } from './history';
+import { ReviewQueue } from './review';
+import { isOptedOut } from './rules';
+import { matchesGlobFilter } from './glob';
+import { isClassifiableFile, readClassificationContent } from './filetypes';
+import { findMovableAttachments } from './attachments';
+import { addTagToFrontmatter, isAnnotated, writeClassification } from './annotate';
+import { isEnrichmentEnabled, writeEnrichment } from './enrich';
+import { resolveTargetFolderPath, resolveTargetFolders } from './folders';
+import { SortPreviewModal } from './preview';
+import { LocalClassifier } from './local';
+import { configureRequestSchedulers } from './scheduler';
+import { ClassificationCache, getCacheKey, hashClassificationConfig, hashText } from './cache';
+import { RetryState, UnclassifiedTracker, getEffectiveUnclassifiedPolicy } from './unclassified';
+import { ProfileSuggestModal, ResolvedProfile, createProfile, getProfiles } from './profiles';
 
 export default class SortInboxPlugin extends Plugin {
 	settings: SortInboxSettings;
-	private autoClassifyIntervalId: number | null = null;
+	journal: MoveJournal;
+	reviewQueue: ReviewQueue;
+	localClassifier: LocalClassifier;
+	classificationCache: ClassificationCache;
+	unclassifiedTracker: UnclassifiedTracker;
+	// プロファイルごとの自動分類タイマー
+	private autoClassifyIntervalIds: number[] = [];
 	private currentBatch: ClassificationBatch | null = null; 
 
 	async onload() {
 		await this.loadSettings();
 
+		// 移動履歴のジャーナルを読み込む
+		this.journal = new MoveJournal(this.app, normalizePath(`${this.manifest.dir}/journal.json`));
+		await this.journal.load();
+
+		// 確認待ちキューを読み込む
+		this.reviewQueue = new ReviewQueue(this.app, normalizePath(`${this.manifest.dir}/review-queue.json`));
+		await this.reviewQueue.load();
+
+		// ローカル分類器（メモの作成・変更・移動・削除に合わせてキャッシュを更新する）
+		this.localClassifier = new LocalClassifier(this.app.vault);
+		this.registerEvent(this.app.vault.on('create', (file) => this.localClassifier.invalidate(file.path)));
+		this.registerEvent(this.app.vault.on('modify', (file) => this.localClassifier.invalidate(file.path)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.localClassifier.invalidate(oldPath)));
+		this.registerEvent(this.app.vault.on('delete', (file) => this.localClassifier.invalidate(file.path)));
+
+		// 分類結果のキャッシュを読み込む
+		this.classificationCache = new ClassificationCache(this.app, normalizePath(`${this.manifest.dir}/classification-cache.json`));
+		await this.classificationCache.load();
+
+		// 分類先が見つからなかったメモの記録を読み込む
+		this.unclassifiedTracker = new UnclassifiedTracker(this.app, normalizePath(`${this.manifest.dir}/unclassified.json`));
+		await this.unclassifiedTracker.load();
+
 		// This creates an icon in the left ribbon.
 		const ribbonIconEl = this.addRibbonIcon('folder', 'Sort Inbox', (evt: MouseEvent) => {
 			// ここでメモの分類実行をする
@@ -20,7 +66,11 @@ export default class SortInboxPlugin extends Plugin {
 		
 		// This adds a status bar item to the bottom of the app. Does not work on mobile apps.
 		const statusBarItemEl = this.addStatusBarItem();
-		statusBarItemEl.setText('Sort Inbox');
+		const updateStatusBar = () => {
+			statusBarItemEl.setText(this.reviewQueue.size > 0 ? `Sort Inbox（確認待ち: ${this.reviewQueue.size}）` : 'Sort Inbox');
+		};
+		updateStatusBar();
+		this.registerEvent(this.reviewQueue.on('changed', updateStatusBar));
 
 		// This adds a simple command that can be triggered anywhere
 		this.addCommand({
@@ -31,6 +81,75 @@ export default class SortInboxPlugin extends Plugin {
 			}
 		});
 
+		// プロファイルを選んで分類するコマンド
+		this.addCommand({
+			id: 'run-sort-inbox-profile',
+			name: 'プロファイルを選んでメモを分類する',
+			callback: () => {
+				new ProfileSuggestModal(this.app, getProfiles(this.settings), (profile) => this.sortInbox({ profileId: profile.id })).open();
+			}
+		});
+
+		// 移動前に分類結果を確認するコマンド
+		this.addCommand({
+			id: 'run-sort-inbox-preview',
+			name: 'メモを分類してプレビューする',
+			callback: () => {
+				this.sortInbox({ preview: true });
+			}
+		});
+
+		// 分類を元に戻すコマンド
+		this.addCommand({
+			id: 'undo-last-sort',
+			name: '最後の分類を元に戻す',
+			callback: () => {
+				this.undoLastSort();
+			}
+		});
+
+		this.addCommand({
+			id: 'undo-sort-run',
+			name: '分類履歴を選んで元に戻す',
+			callback: () => {
+				const runs = this.journal.getRuns().filter(run => isUndoable(run));
+				if (runs.length === 0) {
+					new Notice('元に戻せる分類の履歴がありません');
+					return;
+				}
+				new UndoRunSuggestModal(this.app, runs, (run) => this.undoSortRun(run)).open();
+			}
+		});
+
+		// 確信度が低く確認待ちになっているメモを確認するコマンド
+		this.addCommand({
+			id: 'review-pending-notes',
+			name: '確認待ちのメモを確認する',
+			callback: () => {
+				this.reviewPendingNotes();
+			}
+		});
+
+		// 分類結果のキャッシュを消去するコマンド（次回はすべてのメモを分類し直す）
+		this.addCommand({
+			id: 'clear-classification-cache',
+			name: '分類結果のキャッシュを消去する',
+			callback: () => {
+				this.clearClassificationCache();
+			}
+		});
+
+		// 分類履歴ビュー
+		this.registerView(VIEW_TYPE_HISTORY, (leaf) => new ClassificationHistoryView(leaf, this.journal));
+
+		this.addCommand({
+			id: 'open-classification-history',
+			name: '分類履歴を表示する',
+			callback: () => {
+				this.activateHistoryView();
+			}
+		});
+
 		// This adds a settings tab so the user can configure various aspects of the plugin
 		this.addSettingTab(new SortInboxSettingTab(this.app, this));
 
@@ -48,74 +167,133 @@ export default class SortInboxPlugin extends Plugin {
 
 	onunload() {
 		// 自動分類タイマーをクリア
-		if (this.autoClassifyIntervalId !== null) {
-			window.clearInterval(this.autoClassifyIntervalId);
-			this.autoClassifyIntervalId = null;
-		}
+		this.clearAutoClassifyIntervals();
 	}
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// 以前のバージョンで作成したプロファイルに、後から追加した項目の初期値を補う
+		this.settings.profiles = this.settings.profiles.map(profile => Object.assign(createProfile(profile.name), profile));
+		this.configureRequestScheduler();
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		this.configureRequestScheduler();
 		// 設定が変更されたら自動分類の設定を更新
 		this.setupAutoClassify();
 	}
 
-	// 自動分類のセットアップ
+	// APIリクエストのレート制限とリトライ回数を設定に合わせる
+	configureRequestScheduler() {
+		const options = this.settings.classificationOptions;
+		configureRequestSchedulers(options.requestsPerMinute ?? 15, options.maxRetries ?? 3);
+	}
+
+	// 自動分類のセットアップ（プロファイルごとにタイマーをセットする）
 	setupAutoClassify() {
 		// 既存のインターバルをクリア
-		if (this.autoClassifyIntervalId !== null) {
-			window.clearInterval(this.autoClassifyIntervalId);
-			this.autoClassifyIntervalId = null;
-		}
-
-		// 自動分類が有効で、インターバルが正の値ならタイマーをセット
-		if (
-			this.settings.autoClassifyEnabled &&
-			this.settings.autoClassifyInterval > 0
-		) {
-			// 分をミリ秒に変換
-			const intervalMs = this.settings.autoClassifyInterval * 60 * 1000;
-			
-			this.autoClassifyIntervalId = window.setInterval(() => {
-				this.sortInbox();
-			}, intervalMs);
+		this.clearAutoClassifyIntervals();
+
+		for (const profile of getProfiles(this.settings)) {
+			// 自動分類が有効で、インターバルが正の値ならタイマーをセット
+			if (
+				profile.settings.autoClassifyEnabled &&
+				profile.settings.autoClassifyInterval > 0
+			) {
+				// 分をミリ秒に変換
+				const intervalMs = profile.settings.autoClassifyInterval * 60 * 1000;
+				
+				this.autoClassifyIntervalIds.push(window.setInterval(() => {
+					this.sortInbox({ profileId: profile.id });
+				}, intervalMs));
+			}
 		}
 	}
 
+	// 自動分類のタイマーをすべてクリアする
+	clearAutoClassifyIntervals() {
+		this.autoClassifyIntervalIds.forEach(id => window.clearInterval(id));
+		this.autoClassifyIntervalIds = [];
+	}
+
 	// ファイル作成イベントのハンドラ
 	async handleFileCreated(file: any) {
-		// TFileでないか、マークダウンファイルでない場合はスキップ
-		if (!(file instanceof TFile) || file.extension !== 'md') {
+		// TFileでない場合はスキップ
+		if (!(file instanceof TFile)) {
 			return;
 		}
 
-		// ターゲットフォルダ内のファイルかどうかチェック
-		const inboxPath = this.getNormalizedInboxPath();
-		const filePath = normalizePath(file.path);
-		
-		// パスの比較を改善：フォルダ名の直接比較も行う
-		const isInInboxFolder = this.isFileInInboxFolder(file);
+		// いずれかのプロファイルの監視対象フォルダ内の、分類対象の種類のファイルかどうかチェック
+		const profile = this.getProfileForFile(file);
 		
-		if (!isInInboxFolder) {
+		if (!profile) {
 			return;
 		}
 
-		// 自動分類が有効なら、分類を実行
-		if (this.settings.autoClassifyEnabled) {
+		// そのプロファイルで自動分類が有効なら、分類を実行
+		if (profile.settings.autoClassifyEnabled) {
 			// 少し待ってからファイルを処理（ファイルの内容が確実に書き込まれるように）
+			// 貼り付けた画像などは、埋め込んだメモが保存されてリンクが解決されるまで長めに待つ
+			const delay = file.extension === 'md' ? 1000 : 5000;
 			setTimeout(() => {
+				// メモと一緒に移動する添付ファイルは、メモを分類する際に移動するため個別には分類しない
+				if (this.isAttachmentMovedWithNote(file, profile.settings)) {
+					return;
+				}
 				this.classifySingleFile(file);
-			}, 1000); // 1秒待機
+			}, delay);
+		}
+	}
+
+	// 監視対象フォルダ内のメモが埋め込んでいて、メモと一緒に移動する添付ファイルか
+	isAttachmentMovedWithNote(file: TFile, settings: SortInboxSettings): boolean {
+		if (file.extension === 'md') {
+			return false;
 		}
+		const resolvedLinks = this.app.metadataCache.resolvedLinks;
+		const notes = Object.keys(resolvedLinks)
+			.filter(source => resolvedLinks[source][file.path])
+			.map(source => this.app.vault.getAbstractFileByPath(source))
+			.filter((note): note is TFile => note instanceof TFile && this.isFileInInboxFolder(note, settings));
+		return this.getAttachmentsMovedWithNotes(notes, settings).has(file);
+	}
+
+	// ファイルが監視対象フォルダ内にあるプロファイルを取得する
+	// 複数ある場合は監視対象フォルダがより深いもの（例：「メモ」より「メモ/work」）を優先する
+	getProfileForFile(file: TFile): ResolvedProfile | null {
+		for (const profile of this.getProfilesByInboxDepth()) {
+			// 監視対象フォルダが未設定の追加プロファイルはVaultのルートを対象にしない
+			if (profile.settings !== this.settings && !this.getNormalizedInboxPath(profile.settings)) {
+				continue;
+			}
+			if (this.isFileInInboxFolder(file, profile.settings)) {
+				return profile;
+			}
+		}
+		return null;
+	}
+
+	// 監視対象フォルダの深い順に並べたプロファイルの一覧（同じ深さの場合は定義順）
+	getProfilesByInboxDepth(): ResolvedProfile[] {
+		const depth = (profile: ResolvedProfile) => {
+			const inboxPath = this.getNormalizedInboxPath(profile.settings);
+			return inboxPath ? inboxPath.split('/').length : 0;
+		};
+		return getProfiles(this.settings)
+			.map((profile, index) => ({ profile, index }))
+			.sort((a, b) => depth(b.profile) - depth(a.profile) || a.index - b.index)
+			.map(entry => entry.profile);
+	}
+
+	// ファイルに適用するプロファイルを取得する（監視対象フォルダ外のファイルはデフォルトのプロファイル）
+	resolveProfileForFile(file: TFile): ResolvedProfile {
+		return this.getProfileForFile(file) || getProfiles(this.settings)[0];
 	}
 
 	// 対象フォルダのパスを正規化して取得する
-	getNormalizedInboxPath(): string {
-		let inboxPath = this.settings.inboxFolder.trim();
+	getNormalizedInboxPath(settings: SortInboxSettings = this.settings): string {
+		let inboxPath = settings.inboxFolder.trim();
 		
 		// 末尾のスラッシュを削除
 		if (inboxPath.endsWith('/') || inboxPath.endsWith('\\')) {
@@ -126,30 +304,84 @@ export default class SortInboxPlugin extends Plugin {
 	}
 	
 	// ファイルが対象フォルダ内にあるかどうかを判定
-	isFileInInboxFolder(file: TFile): boolean {
-		const inboxPath = this.getNormalizedInboxPath();
+	// excludedFoldersには、getExcludedFolderPathsで事前に取得したフォルダを指定する（多数のファイルを判定する場合）
+	isFileInInboxFolder(file: TFile, settings: SortInboxSettings = this.settings, excludedFolders?: string[]): boolean {
+		const inboxPath = this.getNormalizedInboxPath(settings);
 		const filePath = normalizePath(file.path);
 		
-		// 空のパスの場合はルートディレクトリという意味なので、すべてのファイルが対象になってしまう
-		// そのため、空パスの場合は特別に処理する
+		// frontmatterで分類対象外（sort-inbox: skip）に指定されたノートと、分類結果を書き込み済みのノートは対象外
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (isOptedOut(cache) || isAnnotated(cache, this.settings)) {
+			return false;
+		}
+		
+		// Markdownと、設定で指定した拡張子のファイルのみ
+		const scan = settings.inboxScan;
+		if (!isClassifiableFile(file, scan.extensions || [])) {
+			return false;
+		}
+		
+		// 監視対象フォルダからの相対パス（空パスの場合はルートディレクトリを基準にする）
+		let relativePath: string;
 		if (inboxPath === '') {
-			// console.log('警告: 監視対象フォルダが設定されていません。ルート直下のファイルのみ対象にします。');
-			// ルート直下のファイルのみを対象とする（フォルダ内のファイルは対象外）
-			return !filePath.includes('/');
+			relativePath = filePath;
+		} else if (filePath.startsWith(inboxPath + '/')) {
+			relativePath = filePath.substring((inboxPath + '/').length);
+		} else {
+			return false;
 		}
 		
-		// 厳密なパスマッチング: ファイルは監視対象フォルダ直下にある必要がある
-		// ケース1: ファイルが対象フォルダ直下にある（パスが「inboxPath/ファイル名」の形式）
-		if (filePath.startsWith(inboxPath + '/')) {
-			const remainingPath = filePath.substring((inboxPath + '/').length);
-			// 残りのパスに/が含まれていなければ、直下のファイル
-			if (!remainingPath.includes('/')) {
-				return true;
+		// サブフォルダを対象にしない場合は、監視対象フォルダ直下のファイルのみ
+		const depth = relativePath.split('/').length;
+		if (depth > (scan.recursive ? Math.max(1, scan.maxDepth) : 1)) {
+			return false;
+		}
+		
+		// グロブパターンで絞り込む（「!」で始まるパターンは除外）
+		if (!matchesGlobFilter(relativePath, scan.include, scan.exclude)) {
+			return false;
+		}
+		
+		// 監視対象フォルダ配下の分類先フォルダ・未分類フォルダにある（分類済みの）メモと、
+		// より深い監視対象フォルダにあるメモは対象外
+		if (depth > 1) {
+			const folders = excludedFolders || this.getExcludedFolderPaths(settings);
+			if (folders.some(folder => filePath.startsWith(folder + '/'))) {
+				return false;
 			}
 		}
 		
-		// それ以外のケースはすべて監視対象外
-		return false;
+		return true;
+	}
+
+	// 分類済みのメモが置かれるフォルダ（分類先フォルダと未分類フォルダ）の実際のパスを取得する
+	getSortedFolderPaths(settings: SortInboxSettings = this.settings): string[] {
+		const folders = this.getTargetFolders(settings).map(folder => this.resolveTargetFolderPath(folder, settings));
+		if (this.settings.unsortedFolder) {
+			folders.push(this.resolveTargetFolderPath(this.settings.unsortedFolder, settings));
+		}
+		return folders;
+	}
+
+	// 監視対象フォルダ配下で、サブフォルダを対象にしても分類しないフォルダの実際のパスを取得する
+	// いずれかのプロファイルの分類済みのメモが置かれるフォルダと、他のプロファイルのより深い監視対象フォルダ
+	// （入れ子のプロファイルで、子のプロファイルが分類したメモを親のプロファイルが分類し直さないため）
+	getExcludedFolderPaths(settings: SortInboxSettings = this.settings): string[] {
+		const inboxPath = this.getNormalizedInboxPath(settings);
+		const isInsideInbox = (folder: string) => folder !== inboxPath && (!inboxPath || folder.startsWith(inboxPath + '/'));
+		const folders: string[] = [];
+		for (const profile of getProfiles(this.settings)) {
+			const otherInboxPath = this.getNormalizedInboxPath(profile.settings);
+			// 監視対象フォルダが未設定の追加プロファイルは使われないため対象外
+			if (profile.settings !== this.settings && !otherInboxPath) {
+				continue;
+			}
+			if (otherInboxPath && isInsideInbox(otherInboxPath)) {
+				folders.push(otherInboxPath);
+			}
+			folders.push(...this.getSortedFolderPaths(profile.settings).filter(isInsideInbox));
+		}
+		return folders;
 	}
 
 	// 単一ファイルの分類を実行
@@ -157,23 +389,84 @@ export default class SortInboxPlugin extends Plugin {
 		try {
 			new Notice(`ファイル「${file.basename}」を分類中...`);
 			
-			const result = await classifyFile(file, this.settings, this.app.vault);
+			// ファイルのあるプロファイルの分類先・ルール・プロンプトで分類する
+			const profile = this.resolveProfileForFile(file);
+			const settings = profile.settings;
+			const [result] = await this.classifyWithCache(
+				[{ file, settings }],
+				async () => [await classifyFile(file, settings, this.app.vault, this.app.metadataCache, this.localClassifier)]
+			);
 			
-			if (result.success && result.targetFolder) {
-				// ファイルの移動処理
-				try {
-					await this.moveFileToFolder(file, result.targetFolder);
-					new Notice(`ファイルを「${result.targetFolder}」に分類しました`);
-				} catch (moveError) {
-					console.error('ファイル移動中にエラーが発生:', moveError);
-					new Notice(`ファイル移動エラー: ${moveError instanceof Error ? moveError.message : String(moveError)}`);
+			// プレビューモードの場合は移動前に確認する
+			if (this.settings.previewBeforeMove && result.success) {
+				const moves = await new SortPreviewModal(this.app, [result], this.getTargetFolders(settings)).openAndWait();
+				if (!moves || moves.length === 0) {
+					new Notice('ファイルは移動しませんでした');
+					return;
 				}
-			} else if (result.success) {
-				// 分類できなかった（targetFolderがnull）
-				new Notice('分類先が見つからなかったため、ファイルは移動しませんでした');
+				// 確定した分類先で結果を上書きする（確認待ちだった結果も移動する）
+				result.targetFolder = moves[0].targetFolder;
+				result.status = ClassificationStatus.COMPLETED;
 			} else {
-				// エラーが発生した
-				new Notice(`分類エラー: ${result.error || '不明なエラー'}`);
+				// 確信度が低い結果は移動せずに確認待ちにする
+				this.applyConfidenceThreshold([result]);
+			}
+			
+			const run = this.journal.startRun();
+			try {
+				if (result.status === ClassificationStatus.NEEDS_REVIEW) {
+					this.reviewQueue.add({
+						path: file.path,
+						proposedFolder: result.targetFolder,
+						confidence: result.confidence,
+						profileId: profile.id
+					});
+					await this.reviewQueue.save();
+					this.recordUnmoved(run, result, ClassificationStatus.NEEDS_REVIEW);
+					new Notice(`確信度が低いため、ファイルを確認待ちにしました（提案: ${result.targetFolder}）`);
+				} else if (result.success && result.targetFolder && this.settings.applyMode !== 'move') {
+					// 移動せずに分類結果をプロパティ・タグとして書き込む
+					if (await this.annotateFile(file, result.targetFolder, run)) {
+						await this.applyEnrichment(result);
+						new Notice(`ファイルに分類結果「${result.targetFolder}」を書き込みました`);
+					} else {
+						new Notice('Markdown以外のファイルには分類結果を書き込めません');
+					}
+				} else if (result.success && result.targetFolder) {
+					// ファイルの移動処理
+					try {
+						const outcome = await this.moveFileToFolder(file, result.targetFolder, run, settings);
+						result.collision = outcome.collision;
+						if (outcome.newPath) {
+							await this.applyEnrichment(result);
+							new Notice(`ファイルを「${result.targetFolder}」に分類しました`);
+						} else {
+							new Notice(`「${result.targetFolder}」に同名のファイルがあるため、ファイルは移動しませんでした`);
+						}
+					} catch (moveError) {
+						console.error('ファイル移動中にエラーが発生:', moveError);
+						const message = moveError instanceof Error ? moveError.message : String(moveError);
+						this.recordUnmoved(run, result, ClassificationStatus.FAILED, message);
+						new Notice(`ファイル移動エラー: ${message}`);
+					}
+				} else if (result.success && result.status === ClassificationStatus.COMPLETED) {
+					// 分類できなかった（targetFolderがnull）場合は設定に従って処理する
+					const handled = await this.handleUnclassified(result, run, settings);
+					await this.unclassifiedTracker.save();
+					new Notice(handled === 'moved'
+						? `分類先が見つからなかったため、ファイルを「${this.settings.unsortedFolder}」に移動しました`
+						: '分類先が見つからなかったため、ファイルは移動しませんでした');
+				} else if (result.success) {
+					// 分類対象外に指定されている
+					this.recordUnmoved(run, result, ClassificationStatus.SKIPPED);
+					new Notice('分類対象外のため、ファイルは移動しませんでした');
+				} else {
+					// エラーが発生した（応答が解釈できなかった場合はその旨を記録）
+					this.recordUnmoved(run, result, this.getFailureStatus(result), result.error);
+					new Notice(`分類エラー: ${result.error || '不明なエラー'}`);
+				}
+			} finally {
+				await this.journal.finishRun(run);
 			}
 		} catch (error) {
 			console.error('ファイル分類中にエラーが発生:', error);
@@ -181,190 +474,831 @@ export default class SortInboxPlugin extends Plugin {
 		}
 	}
 
-	// フォルダ内のすべてのファイルを分類
-	async sortInbox() {
+	// 監視対象フォルダ内のすべてのファイルを分類
+	// preview: trueの場合は設定にかかわらず移動前にプレビューを表示する
+	// profileIdを指定した場合はそのプロファイルのみ、指定しない場合はすべてのプロファイルを順に分類する
+	async sortInbox(options: { preview?: boolean, profileId?: string } = {}) {
 		// すでに分類処理が実行中なら、二重実行を防止
 		if (this.currentBatch && this.currentBatch.inProgress) {
 			new Notice('分類処理が既に実行中です');
 			return;
 		}
 
-		try {
-			const inboxPath = this.getNormalizedInboxPath();
-			
-			// 監視対象フォルダが設定されていない場合は警告
-			if (!inboxPath) {
-				new Notice('監視対象フォルダが設定されていません。設定画面で指定してください。');
-				return;
+		// 監視対象フォルダが設定されていないプロファイルは対象外
+		const profiles = getProfiles(this.settings)
+			.filter(profile => !options.profileId || profile.id === options.profileId)
+			.filter(profile => this.getNormalizedInboxPath(profile.settings));
+		
+		// 監視対象フォルダが設定されていない場合は警告
+		if (profiles.length === 0) {
+			new Notice('監視対象フォルダが設定されていません。設定画面で指定してください。');
+			return;
+		}
+		
+		// 分類先が見つからなかったメモの記録は、実行しないプロファイルの分も含めて
+		// いずれかの監視対象フォルダに残っているメモだけを保持する
+		const filesByProfile = this.collectInboxFiles();
+		const allInboxFiles: TFile[] = [];
+		filesByProfile.forEach(files => allInboxFiles.push(...files));
+		this.unclassifiedTracker.retain(allInboxFiles.map(file => file.path));
+		
+		for (const profile of profiles) {
+			await this.sortProfile(profile, filesByProfile.get(profile.id) || [], options);
+		}
+	}
+
+	// 各プロファイルの監視対象フォルダ内のファイルを取得する（キーはプロファイルのID）
+	// 複数のプロファイルに該当するファイルは、getProfileForFileと同じプロファイルに割り当てる
+	collectInboxFiles(): Map<string, TFile[]> {
+		const allFiles = this.app.vault.getFiles();
+		const assigned = new Set<TFile>();
+		const filesByProfile = new Map<string, TFile[]>();
+		for (const profile of this.getProfilesByInboxDepth()) {
+			if (!this.getNormalizedInboxPath(profile.settings)) {
+				continue;
 			}
-			
-			new Notice(`「${inboxPath}」内のファイルを分類中...`);
+			const excludedFolders = this.getExcludedFolderPaths(profile.settings);
+			const files = allFiles.filter(file => !assigned.has(file) && this.isFileInInboxFolder(file, profile.settings, excludedFolders));
+			files.forEach(file => assigned.add(file));
+			filesByProfile.set(profile.id, files);
+		}
+		return filesByProfile;
+	}
 
-			// 対象フォルダ内のファイルを取得（検出ロジックの改善）
-			const allFiles = this.app.vault.getMarkdownFiles();
-			const files = allFiles.filter(file => this.isFileInInboxFolder(file));
-			
-			if (files.length === 0) {
-				new Notice(`「${inboxPath}」内に分類対象のファイルがありません`);
-				return;
+	// 監視対象フォルダ内のメモが埋め込んでいて、メモと一緒に移動する添付ファイルを取得する
+	// 移動しない反映方法や添付ファイルを移動しない設定では空になる
+	getAttachmentsMovedWithNotes(files: TFile[], settings: SortInboxSettings): Set<TFile> {
+		const attachments = new Set<TFile>();
+		if (!this.settings.moveAttachments || this.settings.applyMode !== 'move') {
+			return attachments;
+		}
+		const inboxPath = this.getNormalizedInboxPath(settings);
+		for (const file of files) {
+			if (file.extension === 'md') {
+				findMovableAttachments(file, inboxPath, this.app.metadataCache).forEach(attachment => attachments.add(attachment));
 			}
+		}
+		return attachments;
+	}
+
+	// 1つのプロファイルの監視対象フォルダ内のファイルを分類する
+	// inboxFilesには、collectInboxFilesで取得したそのプロファイルのファイルを指定する
+	async sortProfile(profile: ResolvedProfile, inboxFiles: TFile[], options: { preview?: boolean }) {
+		const settings = profile.settings;
+		// プロファイルが複数ある場合は、通知にプロファイル名を付ける
+		const label = this.settings.profiles.length > 0 ? `【${profile.name}】` : '';
+		
+		try {
+			const inboxPath = this.getNormalizedInboxPath(settings);
+			
+			new Notice(`${label}「${inboxPath}」内のファイルを分類中...`);
 
-			// 分類処理の初期化
+			// 分類処理の初期化（二重実行を防ぐため、最初のawaitより前に実行中にする）
 			this.currentBatch = {
-				tasks: files.map(file => ({ file, settings: this.settings })),
+				tasks: [],
 				summary: {
-					totalFiles: files.length,
+					totalFiles: 0,
 					classifiedFiles: 0,
 					skippedFiles: 0,
 					failedFiles: 0,
+					reviewFiles: 0,
+					reclassifiedFiles: 0,
+					unsortedFiles: 0,
 					folderCounts: {},
 					durationMs: 0
 				},
 				inProgress: true,
 				startTime: Date.now()
 			};
+
+			// 分類先が見つからなかったメモは、再試行の時期になるか内容が変わるまで対象から外す
+			const retryStates = await this.getRetryStates(inboxFiles);
+			// メモと一緒に移動する添付ファイルは、個別には分類しない
+			// 確認待ちのメモは、ユーザーが「確認待ちのメモを確認する」で処理するまで分類し直さない
+			const attachments = this.getAttachmentsMovedWithNotes(inboxFiles, settings);
+			const files = inboxFiles.filter(file => {
+				const state = retryStates.get(file);
+				return state !== 'wait' && state !== 'exhausted' && !attachments.has(file) && !this.reviewQueue.has(file.path);
+			});
 			
-			// 効率的なバッチ処理を使用（1回のAPIリクエストで複数ファイルを処理）
-			// ファイル数が少ない場合または設定で高精度モードが有効な場合は個別処理
-			const useJsonBatch = files.length >= 3 && !this.settings.classificationOptions.highAccuracyMode;
+			if (files.length === 0) {
+				new Notice(inboxFiles.length > 0
+					? `${label}「${inboxPath}」内のメモはすべて再試行待ちまたは確認待ちです`
+					: `${label}「${inboxPath}」内に分類対象のファイルがありません`);
+				return;
+			}
+
+			this.currentBatch.tasks = files.map(file => ({ file, settings, ignoreCache: retryStates.get(file) === 'retry' }));
+			this.currentBatch.summary.totalFiles = files.length;
 			
-			if (useJsonBatch) {
-				try {
-					// 処理開始を通知
-					this.showProgress(0, files.length, '一括分類処理を開始...');
-					
-					// バッチ処理を使用（1回のAPIリクエストで複数ファイルを処理）
-					const batchResults = await batchClassifyFiles(files, this.settings, this.app.vault);
-					
-					// 進捗表示を更新
-					this.showProgress(files.length / 2, files.length, '分類結果に基づいてファイルを移動中...');
-					
-					// 各ファイルを分類結果に基づいて移動
-					for (const file of files) {
-						try {
-							const targetFolder = batchResults.get(file.path);
-							
-							if (targetFolder) {
-								// 分類先が見つかった場合は移動
-								await this.moveFileToFolder(file, targetFolder);
-								
-								// サマリーの更新
-								this.currentBatch.summary.classifiedFiles++;
-								
-								// フォルダごとのカウントを更新
-								if (!this.currentBatch.summary.folderCounts[targetFolder]) {
-									this.currentBatch.summary.folderCounts[targetFolder] = 0;
-								}
-								this.currentBatch.summary.folderCounts[targetFolder]++;
-							} else {
-								// 分類できなかった（スキップ）
-								this.currentBatch.summary.skippedFiles++;
-							}
-						} catch (error) {
-							console.error(`ファイル「${file.basename}」の処理中にエラーが発生:`, error);
-							this.currentBatch.summary.failedFiles++;
-						}
-					}
-				} catch (batchError) {
-					console.error('バッチ処理中にエラーが発生:', batchError);
-					new Notice(`バッチ処理エラー: ${batchError instanceof Error ? batchError.message : String(batchError)}`);
+			// 分類を実行（この段階ではファイルは移動しない）
+			const results = await this.collectClassifications(this.currentBatch, settings);
+			
+			// プレビューモードの場合は、ユーザーが確定した移動のみを適用する
+			if (options.preview || this.settings.previewBeforeMove) {
+				const moves = await new SortPreviewModal(this.app, results, this.getTargetFolders(settings)).openAndWait();
+				if (!moves) {
+					new Notice('分類をキャンセルしました。ファイルは移動していません');
+					return;
 				}
-			} else {
-				// 従来の個別API呼び出しによるバッチ処理を使用
-				try {
-					// バッチ分類を実行（進捗表示コールバックを渡す）
-					const results = await classifyFileBatch(
-						this.currentBatch.tasks, 
-						this.app.vault,
-						(current, total, message) => this.showProgress(current, total, message)
-					);
-					
-					// 各ファイルの結果を処理
-					for (const result of results) {
-						try {
-							if (result.success && result.targetFolder) {
-								// 分類先が見つかった場合は移動
-								await this.moveFileToFolder(result.file, result.targetFolder);
-								
-								// サマリーの更新
-								this.currentBatch.summary.classifiedFiles++;
-								
-								// フォルダごとのカウントを更新
-								if (!this.currentBatch.summary.folderCounts[result.targetFolder]) {
-									this.currentBatch.summary.folderCounts[result.targetFolder] = 0;
-								}
-								this.currentBatch.summary.folderCounts[result.targetFolder]++;
-							} else if (result.success) {
-								// 分類できなかった（スキップ）
-								this.currentBatch.summary.skippedFiles++;
-							} else {
-								// エラーが発生した
-								this.currentBatch.summary.failedFiles++;
-							}
-						} catch (error) {
-							console.error(`ファイル「${result.file.basename}」の処理中にエラーが発生:`, error);
-							this.currentBatch.summary.failedFiles++;
-						}
+				
+				// 確定した分類先で結果を上書きし、拒否されたものは分類しない扱いにする
+				const confirmed = new Map(moves.map(move => [move.result, move.targetFolder]));
+				for (const result of results) {
+					if (confirmed.has(result)) {
+						result.targetFolder = confirmed.get(result) as string;
+						result.success = true;
+						result.status = ClassificationStatus.COMPLETED;
+					} else if (result.success) {
+						// 拒否されたメモは「分類先が見つからなかった」扱いにしない
+						result.targetFolder = null;
+						result.status = ClassificationStatus.SKIPPED;
 					}
-				} catch (batchError) {
-					console.error('バッチ処理中にエラーが発生:', batchError);
-					new Notice(`バッチ処理エラー: ${batchError instanceof Error ? batchError.message : String(batchError)}`);
 				}
+			} else {
+				// 確信度が低い結果は移動せずに確認待ちにする
+				this.applyConfidenceThreshold(results);
+			}
+			
+			// 分類結果に基づいてファイルを移動し、ジャーナルに記録
+			const run = this.journal.startRun();
+			try {
+				await this.applyClassifications(results, this.currentBatch.summary, run, () => profile);
+			} finally {
+				await this.journal.finishRun(run);
 			}
 
 			// 処理完了の更新
-			this.currentBatch.inProgress = false;
 			this.currentBatch.summary.durationMs = Date.now() - this.currentBatch.startTime;
 
 			// 結果通知
-			this.showClassificationResults(this.currentBatch.summary);
+			this.showClassificationResults(this.currentBatch.summary, label);
 		} catch (error) {
 			console.error('分類処理中にエラーが発生:', error);
 			new Notice('分類処理中にエラーが発生しました');
-			
+		} finally {
+			// 途中で終了した場合も含め、実行中の状態を解除する
 			if (this.currentBatch) {
 				this.currentBatch.inProgress = false;
 			}
 		}
 	}
 
-	// ファイルを指定フォルダに移動
-	async moveFileToFolder(file: TFile, targetFolder: string) {
-		// 対象フォルダが絶対パスでない場合は、監視対象フォルダの直下に作成する
-		const inboxPath = this.getNormalizedInboxPath();
-		const fullTargetFolder = inboxPath ? `${inboxPath}/${targetFolder}` : targetFolder;
+	// バッチ内のファイルを分類し、結果を返す（ファイルの移動は行わない）
+	async collectClassifications(batch: ClassificationBatch, settings: SortInboxSettings = this.settings): Promise<ClassificationResult[]> {
+		return this.classifyWithCache(batch.tasks, tasks => this.classifyTasks({ ...batch, tasks }, settings));
+	}
+
+	// 内容と分類先の設定が変わっていないメモはキャッシュした結果を再利用し、残りのみを分類する
+	async classifyWithCache(
+		tasks: ClassificationTask[],
+		classify: (tasks: ClassificationTask[]) => Promise<ClassificationResult[]>
+	): Promise<ClassificationResult[]> {
+		const cacheKeys = new Map<TFile, string>();
+		const cachedResults = new Map<TFile, ClassificationResult>();
+		if (this.settings.classificationOptions.cacheResults !== false) {
+			// 設定のハッシュ値はプロファイル（タスクの設定）ごとに計算する
+			const configHashes = new Map<SortInboxSettings, string>();
+			for (const task of tasks) {
+				let configHash = configHashes.get(task.settings);
+				if (configHash === undefined) {
+					configHash = await hashClassificationConfig(task.settings, this.getTargetFolders(task.settings));
+					configHashes.set(task.settings, configHash);
+				}
+				const key = await getCacheKey(configHash, task.file, await readClassificationContent(task.file, this.app.vault, this.app.metadataCache));
+				cacheKeys.set(task.file, key);
+				const cached = task.ignoreCache ? null : this.classificationCache.get(key);
+				if (cached) {
+					cachedResults.set(task.file, {
+						file: task.file,
+						targetFolder: cached.folder,
+						success: true,
+						status: ClassificationStatus.COMPLETED,
+						confidence: cached.confidence,
+						reason: cached.reason,
+						enrichment: cached.enrichment
+					});
+				}
+			}
+		}
+		
+		const uncachedTasks = tasks.filter(task => !cachedResults.has(task.file));
+		const freshResults = uncachedTasks.length > 0 ? await classify(uncachedTasks) : [];
+		
+		// 分類できた結果（「分類しない」を含む）をキャッシュする。エラーやスキップ指定は保存しない
+		// ローカル分類器で代替した結果は、次回LLMで分類し直せるよう保存しない
+		const freshByFile = new Map<TFile, ClassificationResult>();
+		for (const result of freshResults) {
+			freshByFile.set(result.file, result);
+			const key = cacheKeys.get(result.file);
+			if (key && result.success && result.status === ClassificationStatus.COMPLETED && !result.fromLocalFallback) {
+				this.classificationCache.set(key, { folder: result.targetFolder, confidence: result.confidence, reason: result.reason, enrichment: result.enrichment });
+			}
+		}
+		if (freshResults.length > 0 && cacheKeys.size > 0) {
+			await this.classificationCache.save();
+		}
+		
+		return tasks
+			.map(task => cachedResults.get(task.file) || freshByFile.get(task.file))
+			.filter((result): result is ClassificationResult => result !== undefined);
+	}
+
+	// 分類結果のキャッシュを消去する
+	async clearClassificationCache() {
+		const count = this.classificationCache.size;
+		await this.classificationCache.clear();
+		new Notice(`分類結果のキャッシュを消去しました（${count}件）`);
+	}
+
+	// タスクを分類し、結果を返す（ファイルの移動は行わない）
+	async classifyTasks(batch: ClassificationBatch, settings: SortInboxSettings = this.settings): Promise<ClassificationResult[]> {
+		const files = batch.tasks.map(task => task.file);
+		
+		// 効率的なバッチ処理を使用（1回のAPIリクエストで複数ファイルを処理）
+		// ファイル数が少ない場合、設定で高精度モードが有効な場合、要約などのメタデータを生成する場合は個別処理
+		const useJsonBatch = files.length >= 3
+			&& !this.settings.classificationOptions.highAccuracyMode
+			&& !isEnrichmentEnabled(settings.enrichment);
+		
+		if (useJsonBatch) {
+			try {
+				// 処理開始を通知
+				this.showProgress(0, files.length, '一括分類処理を開始...');
+				
+				// バッチ処理を使用（1回のAPIリクエストで複数ファイルを処理）
+				const batchResults = await batchClassifyFiles(files, settings, this.app.vault, this.app.metadataCache, this.localClassifier);
+				
+				// 回答に含まれなかった・不正な回答だったファイルは、スキップ扱いにせず個別に分類し直す
+				// API呼び出しや設定のエラーになったファイルは、リクエストを増やさないよう分類し直さない
+				const missingFiles = files.filter(file => !batchResults.preclassified.has(file.path)
+					&& !batchResults.predictions.has(file.path)
+					&& !batchResults.errors.has(file.path));
+				batch.summary.reclassifiedFiles = missingFiles.length;
+				const reclassified = new Map<TFile, ClassificationResult>();
+				for (let i = 0; i < missingFiles.length; i++) {
+					this.showProgress(i, missingFiles.length, '一括分類で回答のなかったファイルを個別に分類中...');
+					reclassified.set(missingFiles[i], await classifyFileWithRetry(
+						missingFiles[i], settings, this.app.vault, this.app.metadataCache, this.localClassifier));
+				}
+				
+				return files.map(file => {
+					const individualResult = reclassified.get(file) || batchResults.preclassified.get(file.path);
+					if (individualResult) {
+						return individualResult;
+					}
+					const error = batchResults.errors.get(file.path);
+					if (error !== undefined) {
+						return {
+							file,
+							targetFolder: null,
+							success: false,
+							status: ClassificationStatus.FAILED,
+							error
+						};
+					}
+					const prediction = batchResults.predictions.get(file.path) as FolderPrediction;
+					return {
+						file,
+						targetFolder: prediction.folder,
+						success: true,
+						status: ClassificationStatus.COMPLETED,
+						confidence: prediction.confidence,
+						fromLocalFallback: prediction.fromLocalFallback
+					};
+				});
+			} catch (batchError) {
+				console.error('バッチ処理中にエラーが発生:', batchError);
+				new Notice(`バッチ処理エラー: ${batchError instanceof Error ? batchError.message : String(batchError)}`);
+				return [];
+			}
+		}
+		
+		// 従来の個別API呼び出しによるバッチ処理を使用
+		try {
+			// バッチ分類を実行（進捗表示コールバックを渡す）
+			return await classifyFileBatch(
+				batch.tasks, 
+				this.app.vault,
+				this.app.metadataCache,
+				(current, total, message) => this.showProgress(current, total, message),
+				this.localClassifier
+			);
+		} catch (batchError) {
+			console.error('バッチ処理中にエラーが発生:', batchError);
+			new Notice(`バッチ処理エラー: ${batchError instanceof Error ? batchError.message : String(batchError)}`);
+			return [];
+		}
+	}
+
+	// 分類結果に基づいてファイルを移動し、サマリーを更新する
+	// getProfileには、各結果を分類したプロファイルを返す関数を指定する（移動先はそのプロファイルの設定で決める）
+	async applyClassifications(
+		results: ClassificationResult[],
+		summary: ClassificationSummary,
+		run: ClassificationRun,
+		getProfile: (result: ClassificationResult) => ResolvedProfile
+	) {
+		if (results.length > 0) {
+			this.showProgress(0, results.length, '分類結果に基づいてファイルを移動中...');
+		}
+		
+		// メモと一緒に移動した添付ファイル（添付ファイル自体も分類対象だった場合は重ねて移動しない）
+		const movedAttachments = new Set<TFile>();
+		
+		for (const result of results) {
+			if (movedAttachments.has(result.file)) {
+				summary.classifiedFiles++;
+				continue;
+			}
+			
+			try {
+				// 移動先は分類したプロファイルの監視対象フォルダを基準に決める
+				const profile = getProfile(result);
+				const settings = profile.settings;
+				
+				if (result.status === ClassificationStatus.NEEDS_REVIEW) {
+					// 確信度が低いため移動せずに確認待ちにする
+					summary.reviewFiles++;
+					this.reviewQueue.add({
+						path: result.file.path,
+						proposedFolder: result.targetFolder,
+						confidence: result.confidence,
+						profileId: profile.id
+					});
+					this.recordUnmoved(run, result, ClassificationStatus.NEEDS_REVIEW);
+				} else if (result.success && result.targetFolder && this.settings.applyMode !== 'move') {
+					// 移動せずに分類結果をプロパティ・タグとして書き込む
+					if (!(await this.annotateFile(result.file, result.targetFolder, run))) {
+						summary.skippedFiles++;
+						continue;
+					}
+					await this.applyEnrichment(result);
+					this.reviewQueue.remove([result.file.path]);
+					this.unclassifiedTracker.remove([result.file.path]);
+					summary.classifiedFiles++;
+					summary.folderCounts[result.targetFolder] = (summary.folderCounts[result.targetFolder] || 0) + 1;
+				} else if (result.success && result.targetFolder) {
+					// 分類先が見つかった場合は移動
+					const originalPath = result.file.path;
+					const outcome = await this.moveFileToFolder(result.file, result.targetFolder, run, settings);
+					result.collision = outcome.collision;
+					(outcome.attachments || []).forEach(attachment => movedAttachments.add(attachment));
+					
+					// 同名ファイルとの衝突でスキップした場合
+					if (!outcome.newPath) {
+						summary.skippedFiles++;
+						continue;
+					}
+					
+					// AIが生成した要約・キーワード・タグを書き込む
+					await this.applyEnrichment(result);
+					
+					// 確認待ちだったメモや分類先が見つからなかったメモが移動された場合は記録から外す
+					this.reviewQueue.remove([originalPath]);
+					this.unclassifiedTracker.remove([originalPath]);
+					
+					// サマリーの更新
+					summary.classifiedFiles++;
+					
+					// フォルダごとのカウントを更新
+					if (!summary.folderCounts[result.targetFolder]) {
+						summary.folderCounts[result.targetFolder] = 0;
+					}
+					summary.folderCounts[result.targetFolder]++;
+				} else if (result.success && result.status === ClassificationStatus.COMPLETED) {
+					// 分類先が見つからなかった（設定に従って残す・未分類フォルダに移動する・タグを付ける）
+					if (await this.handleUnclassified(result, run, settings) === 'moved') {
+						summary.unsortedFiles++;
+					} else {
+						summary.skippedFiles++;
+					}
+				} else if (result.success) {
+					// 分類対象外・プレビューで拒否された（スキップ）
+					summary.skippedFiles++;
+					this.recordUnmoved(run, result, ClassificationStatus.SKIPPED);
+				} else {
+					// エラーが発生した
+					summary.failedFiles++;
+					this.recordUnmoved(run, result, this.getFailureStatus(result), result.error);
+				}
+			} catch (error) {
+				console.error(`ファイル「${result.file.basename}」の処理中にエラーが発生:`, error);
+				summary.failedFiles++;
+				this.recordUnmoved(run, result, ClassificationStatus.FAILED, error instanceof Error ? error.message : String(error));
+			}
+		}
+		
+		await this.reviewQueue.save();
+		await this.unclassifiedTracker.save();
+	}
+
+	// 確信度がしきい値未満の結果を確認待ちにする
+	// ルールやfrontmatterで決まった結果は確信度100として扱う
+	applyConfidenceThreshold(results: ClassificationResult[]) {
+		const threshold = this.settings.classificationOptions.confidenceThreshold || 0;
+		if (threshold <= 0) {
+			return;
+		}
+		
+		for (const result of results) {
+			// 確信度を返さなかった場合も、人の判断に委ねる
+			if (result.success && result.targetFolder && (result.confidence === undefined || result.confidence < threshold)) {
+				result.status = ClassificationStatus.NEEDS_REVIEW;
+			}
+		}
+	}
+
+	// 確認待ちのメモをプレビューで確認し、承認したものを移動する
+	async reviewPendingNotes() {
+		if (this.currentBatch && this.currentBatch.inProgress) {
+			new Notice('分類処理が既に実行中です');
+			return;
+		}
+		
+		// 移動・削除されたメモはキューから外す
+		// 分類先は確認待ちにしたときのプロファイルで解決する（記録がない場合はファイルのあるプロファイル）
+		const items = this.reviewQueue.getItems();
+		const profiles = getProfiles(this.settings);
+		const results: ClassificationResult[] = [];
+		const resultProfiles = new Map<ClassificationResult, ResolvedProfile>();
+		for (const item of items) {
+			const file = this.app.vault.getAbstractFileByPath(item.path);
+			if (file instanceof TFile) {
+				const result: ClassificationResult = {
+					file,
+					targetFolder: item.proposedFolder,
+					success: true,
+					status: ClassificationStatus.COMPLETED,
+					confidence: item.confidence
+				};
+				results.push(result);
+				resultProfiles.set(result, profiles.find(profile => profile.id === item.profileId) || this.resolveProfileForFile(file));
+			}
+		}
+		this.reviewQueue.remove(items.map(item => item.path).filter(path => !results.some(result => result.file.path === path)));
+		
+		if (results.length === 0) {
+			await this.reviewQueue.save();
+			new Notice('確認待ちのメモはありません');
+			return;
+		}
+		
+		// 分類先の候補は、各メモのプロファイルの分類先フォルダを合わせたもの
+		const targetFolders: string[] = [];
+		new Set(resultProfiles.values()).forEach(profile => {
+			this.getTargetFolders(profile.settings)
+				.filter(folder => !targetFolders.includes(folder))
+				.forEach(folder => targetFolders.push(folder));
+		});
+		
+		const moves = await new SortPreviewModal(this.app, results, targetFolders).openAndWait();
+		if (!moves) {
+			await this.reviewQueue.save();
+			return;
+		}
+		
+		// 承認されなかったメモは分類しない扱いにして、確認待ちから外す
+		const confirmed = new Map(moves.map(move => [move.result, move.targetFolder]));
+		for (const result of results) {
+			result.targetFolder = confirmed.get(result) || null;
+			if (!result.targetFolder) {
+				result.status = ClassificationStatus.SKIPPED;
+			}
+		}
+		this.reviewQueue.remove(results.map(result => result.file.path));
+		
+		const summary: ClassificationSummary = {
+			totalFiles: results.length,
+			classifiedFiles: 0,
+			skippedFiles: 0,
+			failedFiles: 0,
+			reviewFiles: 0,
+			reclassifiedFiles: 0,
+			unsortedFiles: 0,
+			folderCounts: {},
+			durationMs: 0
+		};
+		const startTime = Date.now();
+		const run = this.journal.startRun();
+		try {
+			await this.applyClassifications(results, summary, run, result => resultProfiles.get(result) as ResolvedProfile);
+		} finally {
+			await this.journal.finishRun(run);
+		}
+		summary.durationMs = Date.now() - startTime;
+		this.showClassificationResults(summary);
+	}
+
+	// 分類先が見つからなかったメモの再試行の状態を取得する
+	async getRetryStates(files: TFile[]): Promise<Map<TFile, RetryState>> {
+		const states = new Map<TFile, RetryState>();
+		for (const file of files) {
+			const contentHash = await hashText(await readClassificationContent(file, this.app.vault, this.app.metadataCache));
+			states.set(file, this.unclassifiedTracker.getRetryState(
+				file.path, contentHash, this.settings.unclassifiedRetryDays, this.settings.unclassifiedMaxAttempts));
+		}
+		return states;
+	}
+
+	// 分類先が見つからなかったメモを設定に従って処理する
+	// 未分類フォルダに移動した場合は'moved'、同名ファイルのため移動しなかった場合は'collision'、残した場合は'kept'を返す
+	// settingsには、未分類フォルダの位置の基準になるプロファイルの設定を指定する
+	async handleUnclassified(result: ClassificationResult, run: ClassificationRun, settings: SortInboxSettings = this.settings): Promise<'moved' | 'collision' | 'kept'> {
+		const file = result.file;
+		const policy = getEffectiveUnclassifiedPolicy(this.settings.unclassifiedPolicy, this.settings.applyMode);
+		
+		if (policy === 'move' && this.settings.unsortedFolder) {
+			const originalPath = file.path;
+			const outcome = await this.moveFileToFolder(file, this.settings.unsortedFolder, run, settings);
+			result.collision = outcome.collision;
+			if (outcome.newPath) {
+				this.unclassifiedTracker.remove([originalPath]);
+				return 'moved';
+			}
+			return 'collision';
+		}
+		
+		// タグはfrontmatterに書き込むため、Markdownのメモのみ
+		if (policy === 'tag' && this.settings.unsortedTag && file.extension === 'md') {
+			const tag = this.settings.unsortedTag;
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => addTagToFrontmatter(frontmatter, tag));
+		}
+		
+		// 再試行の判定のため、タグ付け後の内容を記録する
+		// ローカル分類器で代替した結果は、次回LLMで分類し直せるよう再試行の回数に数えない
+		if (!result.fromLocalFallback) {
+			const content = file.extension === 'md'
+				? await this.app.vault.read(file)
+				: await readClassificationContent(file, this.app.vault, this.app.metadataCache);
+			this.unclassifiedTracker.record(file.path, await hashText(content));
+		}
+		this.recordUnmoved(run, result, ClassificationStatus.SKIPPED);
+		return 'kept';
+	}
+
+	// 分類対象フォルダの一覧を取得する（自動検出モードではVaultのフォルダから検出）
+	getTargetFolders(settings: SortInboxSettings = this.settings): string[] {
+		return resolveTargetFolders(settings, this.app.vault);
+	}
+
+	// 分類先フォルダの実際のパスを取得する
+	resolveTargetFolderPath(targetFolder: string, settings: SortInboxSettings = this.settings): string {
+		return resolveTargetFolderPath(settings, targetFolder);
+	}
+
+	// AIが生成した要約・キーワード・タグをfrontmatterに書き込む（Markdownのメモのみ）
+	// 書き込みに失敗しても、分類・移動の結果には影響させない
+	async applyEnrichment(result: ClassificationResult) {
+		if (!result.enrichment || result.file.extension !== 'md' || !isEnrichmentEnabled(this.settings.enrichment)) {
+			return;
+		}
+		try {
+			await writeEnrichment(this.app, result.file, result.enrichment, this.settings.enrichment);
+		} catch (error) {
+			console.error(`ファイル「${result.file.basename}」へのメタデータの書き込み中にエラーが発生:`, error);
+		}
+	}
+
+	// 分類結果をメモのプロパティ・タグとして書き込み、ジャーナルに記録する（ファイルは移動しない）
+	// frontmatterを持てないMarkdown以外のファイルは書き込まずにスキップとして記録し、falseを返す
+	async annotateFile(file: TFile, targetFolder: string, run: ClassificationRun): Promise<boolean> {
+		if (file.extension !== 'md') {
+			this.journal.recordItem(run, {
+				file: file.basename,
+				originalPath: file.path,
+				newPath: null,
+				targetFolder,
+				status: ClassificationStatus.SKIPPED,
+				error: 'Markdown以外のファイルには分類結果を書き込めません'
+			});
+			return false;
+		}
+		
+		await writeClassification(this.app, file, targetFolder, this.settings);
+		this.journal.recordItem(run, {
+			file: file.basename,
+			originalPath: file.path,
+			newPath: null,
+			targetFolder,
+			status: ClassificationStatus.COMPLETED
+		});
+		return true;
+	}
+
+	// ファイルを指定フォルダに移動し、移動先のパスと衝突時の対応を返す
+	// runを指定した場合は移動内容をジャーナルに記録する
+	// settingsには、分類先フォルダのパスの基準になるプロファイルの設定を指定する
+	async moveFileToFolder(file: TFile, targetFolder: string, run?: ClassificationRun, settings: SortInboxSettings = this.settings): Promise<MoveOutcome> {
+		const fullTargetFolder = this.resolveTargetFolderPath(targetFolder, settings);
+		const originalPath = file.path;
 		
 		// 対象フォルダ内のパスを構築
-		const targetPath = normalizePath(`${fullTargetFolder}/${file.name}`);
+		let targetPath = normalizePath(`${fullTargetFolder}/${file.name}`);
+		let collision: CollisionResolution | undefined;
 		
 		// フォルダの存在確認とフォルダ作成
 		try {
-			const folderExists = await this.app.vault.adapter.exists(fullTargetFolder);
-			if (!folderExists) {
-				// console.log(`フォルダ「${fullTargetFolder}」が存在しないため作成します`);
-				await this.app.vault.createFolder(fullTargetFolder);
-			}
+			await this.ensureFolder(fullTargetFolder, run);
 		} catch (error) {
 			console.error(`フォルダ「${fullTargetFolder}」の確認・作成中にエラーが発生:`, error);
 			throw new Error(`フォルダの作成に失敗しました: ${error}`);
 		}
 
+		// 同名のファイルがある場合は設定された方針に従って移動先を決める
+		if (await this.app.vault.adapter.exists(targetPath)) {
+			collision = this.settings.collisionPolicy === 'prompt'
+				? await new CollisionPromptModal(this.app, file.name, fullTargetFolder).openAndWait()
+				: this.settings.collisionPolicy;
+			
+			const resolvedPath = await resolveCollisionPath(this.app.vault, fullTargetFolder, file.basename, file.extension, collision);
+			if (!resolvedPath) {
+				if (run) {
+					this.journal.recordItem(run, {
+						file: file.basename,
+						originalPath,
+						newPath: null,
+						targetFolder,
+						status: ClassificationStatus.SKIPPED,
+						error: `移動先「${targetPath}」に同名のファイルがあるため移動しませんでした`,
+						collision
+					});
+				}
+				return { newPath: null, collision };
+			}
+			targetPath = resolvedPath;
+		}
+
+		// 一緒に移動する添付ファイル（移動後はメモのパスが変わるため、移動前に取得する）
+		const attachments = this.settings.moveAttachments && file.extension === 'md'
+			? findMovableAttachments(file, this.getNormalizedInboxPath(settings), this.app.metadataCache)
+			: [];
+
 		// ファイルを移動
 		try {
 			// console.log(`ファイル「${file.path}」を「${targetPath}」に移動します`);
 			await this.app.fileManager.renameFile(file, targetPath);
-			return true;
 		} catch (error) {
 			console.error(`ファイル「${file.path}」を「${targetPath}」に移動中にエラーが発生:`, error);
 			throw new Error(`ファイルの移動に失敗しました: ${error}`);
 		}
+		
+		if (run) {
+			this.journal.recordItem(run, {
+				file: file.basename,
+				originalPath,
+				newPath: targetPath,
+				targetFolder,
+				status: ClassificationStatus.COMPLETED,
+				collision
+			});
+		}
+		
+		const movedAttachments = attachments.length > 0
+			? await this.moveAttachments(attachments, fullTargetFolder, targetFolder, originalPath, run)
+			: [];
+		return { newPath: targetPath, collision, attachments: movedAttachments };
+	}
+
+	// フォルダが存在しない場合は作成する
+	// runを指定した場合は、元に戻す際に削除できるよう新規作成した階層をすべて記録する
+	async ensureFolder(folderPath: string, run?: ClassificationRun) {
+		if (await this.app.vault.adapter.exists(folderPath)) {
+			return;
+		}
+		if (run) {
+			const segments = normalizePath(folderPath).split('/');
+			for (let i = 1; i <= segments.length; i++) {
+				const parentPath = segments.slice(0, i).join('/');
+				if (!(await this.app.vault.adapter.exists(parentPath))) {
+					this.journal.recordCreatedFolder(run, parentPath);
+				}
+			}
+		}
+		await this.app.vault.createFolder(folderPath);
+	}
+
+	// メモと一緒に添付ファイルを分類先フォルダ（設定によりそのサブフォルダ）に移動し、移動したファイルを返す
+	// 同名ファイルがある場合は連番を付ける。移動できなかった添付ファイルはそのまま残す
+	async moveAttachments(attachments: TFile[], noteFolder: string, targetFolder: string, notePath: string, run?: ClassificationRun): Promise<TFile[]> {
+		const subfolder = this.settings.attachmentFolder.trim().replace(/^\/+|\/+$/g, '');
+		const folderPath = normalizePath(subfolder ? `${noteFolder}/${subfolder}` : noteFolder);
+		const moved: TFile[] = [];
+		
+		try {
+			await this.ensureFolder(folderPath, run);
+		} catch (error) {
+			console.error(`添付ファイルの移動先「${folderPath}」の作成中にエラーが発生:`, error);
+			return moved;
+		}
+		
+		for (const attachment of attachments) {
+			const originalPath = attachment.path;
+			try {
+				let targetPath = normalizePath(`${folderPath}/${attachment.name}`);
+				let collision: CollisionResolution | undefined;
+				if (await this.app.vault.adapter.exists(targetPath)) {
+					collision = 'suffix';
+					targetPath = await resolveCollisionPath(this.app.vault, folderPath, attachment.basename, attachment.extension, collision) as string;
+				}
+				
+				await this.app.fileManager.renameFile(attachment, targetPath);
+				moved.push(attachment);
+				
+				if (run) {
+					this.journal.recordItem(run, {
+						file: attachment.name,
+						originalPath,
+						newPath: targetPath,
+						targetFolder,
+						status: ClassificationStatus.COMPLETED,
+						collision,
+						attachmentOf: notePath
+					});
+				}
+			} catch (error) {
+				console.error(`添付ファイル「${originalPath}」の移動中にエラーが発生:`, error);
+			}
+		}
+		return moved;
+	}
+
+	// 最後の分類実行を元に戻す
+	async undoLastSort() {
+		const run = this.journal.getLastUndoableRun();
+		if (!run) {
+			new Notice('元に戻せる分類の履歴がありません');
+			return;
+		}
+		await this.undoSortRun(run);
+	}
+
+	// 指定した分類実行を元に戻す
+	async undoSortRun(run: ClassificationRun) {
+		if (this.currentBatch && this.currentBatch.inProgress) {
+			new Notice('分類処理の実行中は元に戻せません');
+			return;
+		}
+		
+		try {
+			const result = await this.journal.undoRun(run);
+			
+			let message = `${result.restoredFiles}ファイルを元の場所に戻しました`;
+			if (result.removedFolders > 0) {
+				message += `\n空のフォルダを${result.removedFolders}件削除しました`;
+			}
+			if (result.failedFiles > 0) {
+				message += `\n${result.failedFiles}ファイルは戻せませんでした（詳細はコンソールを確認してください）`;
+			}
+			new Notice(message);
+		} catch (error) {
+			console.error('分類を元に戻す処理中にエラーが発生:', error);
+			new Notice('分類を元に戻す処理中にエラーが発生しました');
+		}
+	}
+
+	// 分類に失敗した結果のステータス（応答が解釈できなかった場合は通信エラーなどと区別する）
+	getFailureStatus(result: ClassificationResult): ClassificationStatus {
+		return result.status === ClassificationStatus.INVALID_RESPONSE
+			? ClassificationStatus.INVALID_RESPONSE
+			: ClassificationStatus.FAILED;
+	}
+
+	// 移動しなかったファイルをジャーナルに記録する
+	recordUnmoved(run: ClassificationRun, result: ClassificationResult, status: ClassificationStatus, error?: string) {
+		this.journal.recordItem(run, {
+			file: result.file.basename,
+			originalPath: result.file.path,
+			newPath: null,
+			targetFolder: result.targetFolder || undefined,
+			status,
+			error
+		});
+	}
+
+	// 分類履歴ビューを開く（既に開いている場合はそれを表示）
+	async activateHistoryView() {
+		const { workspace } = this.app;
+		
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_HISTORY)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) {
+				return;
+			}
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: VIEW_TYPE_HISTORY, active: true });
+		}
+		
+		workspace.revealLeaf(leaf);
 	}
 
 	// 分類結果を表示
-	showClassificationResults(summary: ClassificationSummary) {
+	// labelを指定した場合は通知の先頭に付ける（プロファイル名など）
+	showClassificationResults(summary: ClassificationSummary, label = '') {
 		const totalTime = (summary.durationMs / 1000).toFixed(1);
 		
-		let message = `分類完了: 全${summary.totalFiles}ファイル中、${summary.classifiedFiles}ファイルを分類（${totalTime}秒）`;
+		let message = `${label}分類完了: 全${summary.totalFiles}ファイル中、${summary.classifiedFiles}ファイルを分類（${totalTime}秒）`;
 		
 		if (summary.skippedFiles > 0) {
 			message += `\n分類スキップ: ${summary.skippedFiles}ファイル`;
@@ -374,6 +1308,18 @@ export default class SortInboxPlugin extends Plugin {
 			message += `\nエラー: ${summary.failedFiles}ファイル`;
 		}
 		
+		if (summary.reviewFiles > 0) {
+			message += `\n確認待ち: ${summary.reviewFiles}ファイル（「確認待ちのメモを確認する」から確認できます）`;
+		}
+		
+		if (summary.unsortedFiles > 0) {
+			message += `\n未分類フォルダに移動: ${summary.unsortedFiles}ファイル`;
+		}
+		
+		if (summary.reclassifiedFiles > 0) {
+			message += `\n一括分類で回答がなく個別に再分類: ${summary.reclassifiedFiles}ファイル`;
+		}
+		
 		new Notice(message);
 	}
 
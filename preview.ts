@@ -0,0 +1,142 @@
+import { App, Modal, Setting } from 'obsidian';
+import { ClassificationResult } from './classify';
+
+// プレビューでユーザーが確定した移動
+export interface ConfirmedMove {
+    result: ClassificationResult;
+    targetFolder: string;
+}
+
+// プレビューの各行の状態
+interface PreviewRow {
+    result: ClassificationResult;
+    targetFolder: string | null;
+    accepted: boolean;
+}
+
+// 分類結果を移動前に確認するモーダル
+export class SortPreviewModal extends Modal {
+    private rows: PreviewRow[];
+    private resolvePromise: ((moves: ConfirmedMove[] | null) => void) | null = null;
+    private confirmedMoves: ConfirmedMove[] | null = null;
+
+    constructor(app: App, results: ClassificationResult[], private targetFolders: string[]) {
+        super(app);
+        // 分類先がある行のみ初期状態で承認済みにする
+        this.rows = results.map(result => ({
+            result,
+            targetFolder: result.targetFolder,
+            accepted: result.success && result.targetFolder !== null,
+        }));
+    }
+
+    // モーダルを開き、確定した移動の一覧を返す（キャンセル時はnull）
+    openAndWait(): Promise<ConfirmedMove[] | null> {
+        return new Promise(resolve => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.modalEl.addClass('sort-inbox-preview-modal');
+
+        contentEl.createEl('h2', { text: '分類結果のプレビュー' });
+        contentEl.createEl('p', {
+            cls: 'sort-inbox-preview-desc',
+            text: '移動するファイルにチェックを入れてください。分類先は一覧から変更できます。'
+        });
+
+        const tableEl = contentEl.createEl('table', { cls: 'sort-inbox-preview-table' });
+        const headerRowEl = tableEl.createEl('thead').createEl('tr');
+        ['移動', 'ファイル', '提案', '分類先'].forEach(label => headerRowEl.createEl('th', { text: label }));
+
+        const bodyEl = tableEl.createEl('tbody');
+        this.rows.forEach(row => this.renderRow(bodyEl, row));
+
+        const summaryEl = contentEl.createEl('div', { cls: 'sort-inbox-preview-summary' });
+        const updateSummary = () => {
+            const count = this.rows.filter(row => row.accepted && row.targetFolder).length;
+            summaryEl.textContent = `${this.rows.length}ファイル中、${count}ファイルを移動します`;
+        };
+        updateSummary();
+        tableEl.addEventListener('change', updateSummary);
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('すべて拒否')
+                .onClick(() => {
+                    this.rows.forEach(row => row.accepted = false);
+                    this.onOpen();
+                }))
+            .addButton(button => button
+                .setButtonText('キャンセル')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('移動を実行')
+                .setCta()
+                .onClick(() => {
+                    this.confirmedMoves = this.rows
+                        .filter(row => row.accepted && row.targetFolder)
+                        .map(row => ({ result: row.result, targetFolder: row.targetFolder as string }));
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        if (this.resolvePromise) {
+            this.resolvePromise(this.confirmedMoves);
+            this.resolvePromise = null;
+        }
+    }
+
+    // 1ファイル分の行を描画する
+    private renderRow(bodyEl: HTMLElement, row: PreviewRow): void {
+        const rowEl = bodyEl.createEl('tr');
+
+        const checkboxEl = rowEl.createEl('td').createEl('input', { type: 'checkbox' });
+        checkboxEl.checked = row.accepted;
+
+        rowEl.createEl('td', { text: row.result.file.basename, cls: 'sort-inbox-preview-file' });
+
+        // 提案内容（エラーの場合はエラー内容を表示）
+        const proposalEl = rowEl.createEl('td', { cls: 'sort-inbox-preview-proposal' });
+        if (!row.result.success) {
+            proposalEl.setText(`エラー: ${row.result.error || '不明なエラー'}`);
+            proposalEl.addClass('mod-error');
+        } else {
+            const confidence = row.result.confidence !== undefined ? `（確信度 ${row.result.confidence}%）` : '';
+            proposalEl.setText(`${row.result.targetFolder || '分類しない'}${row.result.targetFolder ? confidence : ''}`);
+            // モデルが返した判断理由があれば併記する
+            if (row.result.reason) {
+                proposalEl.createDiv({ cls: 'sort-inbox-preview-reason', text: row.result.reason });
+            }
+        }
+
+        // 分類先の選択
+        const selectEl = rowEl.createEl('td').createEl('select', { cls: 'dropdown' });
+        selectEl.createEl('option', { value: '', text: '分類しない' });
+        this.targetFolders.forEach(folder => selectEl.createEl('option', { value: folder, text: folder }));
+        selectEl.value = row.targetFolder || '';
+
+        const updateRowState = () => {
+            rowEl.toggleClass('is-rejected', !row.accepted || !row.targetFolder);
+        };
+        updateRowState();
+
+        checkboxEl.addEventListener('change', () => {
+            row.accepted = checkboxEl.checked;
+            updateRowState();
+        });
+        selectEl.addEventListener('change', () => {
+            row.targetFolder = selectEl.value || null;
+            // フォルダを選び直した場合は承認、「分類しない」を選んだ場合は拒否とみなす
+            row.accepted = row.targetFolder !== null;
+            checkboxEl.checked = row.accepted;
+            updateRowState();
+        });
+    }
+}
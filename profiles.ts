@@ -0,0 +1,81 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import type { SortInboxSettings } from './settings';
+import { InboxProfile, InboxProfileSettings } from './types';
+
+// 共通設定の監視対象フォルダを使うデフォルトのプロファイル
+export const DEFAULT_PROFILE_ID = 'default';
+export const DEFAULT_PROFILE_NAME = 'デフォルト';
+
+// プロファイルと、共通設定にプロファイルの設定を反映した実効設定
+export interface ResolvedProfile {
+    id: string;
+    name: string;
+    settings: SortInboxSettings;
+}
+
+// 共通設定にプロファイルの設定を反映する
+export function applyProfile(settings: SortInboxSettings, profile: InboxProfileSettings): SortInboxSettings {
+    return {
+        ...settings,
+        inboxFolder: profile.inboxFolder,
+        inboxScan: profile.inboxScan,
+        targetFolderSource: profile.targetFolderSource,
+        targetFolders: profile.targetFolders,
+        folderDiscovery: profile.folderDiscovery,
+        folderDetails: profile.folderDetails,
+        rules: profile.rules,
+        promptInstructions: profile.promptInstructions,
+        autoClassifyEnabled: profile.autoClassifyEnabled,
+        autoClassifyInterval: profile.autoClassifyInterval,
+    };
+}
+
+// デフォルトのプロファイルと追加のプロファイルの一覧を返す
+export function getProfiles(settings: SortInboxSettings): ResolvedProfile[] {
+    return [
+        { id: DEFAULT_PROFILE_ID, name: DEFAULT_PROFILE_NAME, settings },
+        ...settings.profiles.map(profile => ({
+            id: profile.id,
+            name: profile.name || '無題のプロファイル',
+            settings: applyProfile(settings, profile),
+        })),
+    ];
+}
+
+// 新しいプロファイルを作成する（分類先やルールは空の状態から始める）
+export function createProfile(name: string): InboxProfile {
+    return {
+        id: `profile-${Date.now().toString(36)}`,
+        name,
+        inboxFolder: '',
+        inboxScan: { recursive: false, maxDepth: 3, include: [], exclude: [], extensions: [] },
+        targetFolderSource: 'manual',
+        targetFolders: [],
+        folderDiscovery: { root: '', include: [], exclude: [], maxDepth: 2 },
+        folderDetails: {},
+        rules: [],
+        promptInstructions: '',
+        autoClassifyEnabled: false,
+        autoClassifyInterval: 0,
+    };
+}
+
+// 分類を実行するプロファイルを選択するモーダル
+export class ProfileSuggestModal extends FuzzySuggestModal<ResolvedProfile> {
+    constructor(app: App, private profiles: ResolvedProfile[], private onChoose: (profile: ResolvedProfile) => void) {
+        super(app);
+        this.setPlaceholder('分類するプロファイルを選択');
+    }
+
+    getItems(): ResolvedProfile[] {
+        return this.profiles;
+    }
+
+    getItemText(profile: ResolvedProfile): string {
+        return `${profile.name}（${profile.settings.inboxFolder || 'ルート'}）`;
+    }
+
+    onChooseItem(profile: ResolvedProfile): void {
+        this.onChoose(profile);
+    }
+}
@@ -0,0 +1,226 @@
+import type { SortInboxSettings } from './settings';
+import { APIRequestError, requestSchedulers } from './scheduler';
+import { GeminiRequest, GeminiResponse, GenerationConfig, LLMProviderType, OllamaChatResponse, OpenAIChatResponse } from './types';
+
+// LLMプロバイダーの共通インターフェース
+export interface LLMProvider {
+    readonly type: LLMProviderType;
+    // 通知やエラーメッセージに表示する名前
+    readonly displayName: string;
+    // 必須設定が不足していればエラーメッセージを返す（問題なければnull）
+    validateConfig(): string | null;
+    // プロンプトを送信して応答テキストを返す（応答が空の場合はnull）
+    generate(prompt: string, config: GenerationConfig, timeoutMs?: number): Promise<string | null>;
+}
+
+// プロバイダーの表示名
+export const PROVIDER_DISPLAY_NAMES: Record<LLMProviderType, string> = {
+    gemini: 'Gemini',
+    openai: 'OpenAI互換API',
+    ollama: 'Ollama（ローカル）',
+};
+
+// JSONをPOSTする共通関数（プロバイダーのスケジューラーでレート制限とリトライを行う）
+function postJSON<T>(provider: LLMProviderType, url: string, body: unknown, headers: Record<string, string>, timeoutMs: number): Promise<T> {
+    return requestSchedulers[provider].schedule(() => postJSONOnce<T>(url, body, headers, timeoutMs));
+}
+
+// タイムアウト付きでJSONを1回POSTする
+async function postJSONOnce<T>(url: string, body: unknown, headers: Record<string, string>, timeoutMs: number): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...headers,
+            },
+            body: JSON.stringify(body),
+            signal: controller.signal
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new APIRequestError(
+                `API request failed with status ${response.status}: ${errorText}`,
+                response.status,
+                parseRetryDelay(response.headers.get('retry-after'), errorText)
+            );
+        }
+
+        const data = await response.json();
+        return data as T;
+    } catch (error) {
+        if (error.name === 'AbortError') {
+            throw new Error(`API request timed out after ${timeoutMs}ms`);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+// サーバーが指定した再試行までの待機時間（ミリ秒）を取得する
+// Retry-Afterヘッダー（秒数または日時）と、GeminiのRetryInfo（"retryDelay": "17s"）に対応
+function parseRetryDelay(retryAfter: string | null, errorText: string): number | undefined {
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (!isNaN(seconds)) {
+            return seconds * 1000;
+        }
+        const date = Date.parse(retryAfter);
+        if (!isNaN(date)) {
+            return Math.max(0, date - Date.now());
+        }
+    }
+    const match = errorText.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? parseFloat(match[1]) * 1000 : undefined;
+}
+
+// ベースURL末尾のスラッシュを除去する
+function trimBaseUrl(baseUrl: string): string {
+    return baseUrl.trim().replace(/\/+$/, '');
+}
+
+// Gemini APIリクエスト本文を構築する関数
+export function buildGeminiRequest(prompt: string, config: GenerationConfig): GeminiRequest {
+    return {
+        contents: [{
+            parts: [{
+                text: prompt
+            }]
+        }],
+        generationConfig: {
+            temperature: config.temperature,
+            maxOutputTokens: config.maxOutputTokens,
+            ...(config.json ? { responseMimeType: 'application/json' } : {}),
+        }
+    };
+}
+
+// Google Gemini（gemini-2.0-flash）
+export class GeminiProvider implements LLMProvider {
+    readonly type = 'gemini';
+    readonly displayName = PROVIDER_DISPLAY_NAMES.gemini;
+
+    constructor(private apiKey: string) {}
+
+    validateConfig(): string | null {
+        return this.apiKey ? null : 'Gemini APIキーが設定されていません';
+    }
+
+    async generate(prompt: string, config: GenerationConfig, timeoutMs = 10000): Promise<string | null> {
+        // Gemini 2.0 Flash APIのエンドポイント（APIキーはクエリパラメータで渡す）
+        const apiUrl = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent';
+        const response = await postJSON<GeminiResponse>(
+            this.type,
+            `${apiUrl}?key=${this.apiKey}`,
+            buildGeminiRequest(prompt, config),
+            {},
+            timeoutMs
+        );
+
+        if (!response.candidates || response.candidates.length === 0) {
+            return null;
+        }
+        return response.candidates[0].content.parts[0].text;
+    }
+}
+
+// OpenAI互換のChat Completions API（OpenAI、Azure互換ゲートウェイ、LM Studioなど）
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly type = 'openai';
+    readonly displayName = PROVIDER_DISPLAY_NAMES.openai;
+
+    constructor(private baseUrl: string, private apiKey: string, private model: string) {}
+
+    validateConfig(): string | null {
+        if (!this.baseUrl.trim()) {
+            return 'OpenAI互換APIのベースURLが設定されていません';
+        }
+        if (!this.model.trim()) {
+            return 'OpenAI互換APIのモデル名が設定されていません';
+        }
+        return null;
+    }
+
+    async generate(prompt: string, config: GenerationConfig, timeoutMs = 10000): Promise<string | null> {
+        // ローカルサーバーなどAPIキー不要のエンドポイントも許容する
+        const headers: Record<string, string> = this.apiKey
+            ? { 'Authorization': `Bearer ${this.apiKey}` }
+            : {};
+
+        const response = await postJSON<OpenAIChatResponse>(
+            this.type,
+            `${trimBaseUrl(this.baseUrl)}/chat/completions`,
+            {
+                model: this.model.trim(),
+                messages: [{ role: 'user', content: prompt }],
+                temperature: config.temperature,
+                max_tokens: config.maxOutputTokens,
+                ...(config.json ? { response_format: { type: 'json_object' } } : {}),
+            },
+            headers,
+            timeoutMs
+        );
+
+        if (!response.choices || response.choices.length === 0) {
+            return null;
+        }
+        return response.choices[0].message.content;
+    }
+}
+
+// ローカルのOllamaサーバー（/api/chat）
+export class OllamaProvider implements LLMProvider {
+    readonly type = 'ollama';
+    readonly displayName = PROVIDER_DISPLAY_NAMES.ollama;
+
+    constructor(private baseUrl: string, private model: string) {}
+
+    validateConfig(): string | null {
+        if (!this.baseUrl.trim()) {
+            return 'OllamaサーバーのURLが設定されていません';
+        }
+        if (!this.model.trim()) {
+            return 'Ollamaのモデル名が設定されていません';
+        }
+        return null;
+    }
+
+    async generate(prompt: string, config: GenerationConfig, timeoutMs = 10000): Promise<string | null> {
+        const response = await postJSON<OllamaChatResponse>(
+            this.type,
+            `${trimBaseUrl(this.baseUrl)}/api/chat`,
+            {
+                model: this.model.trim(),
+                messages: [{ role: 'user', content: prompt }],
+                stream: false,
+                ...(config.json ? { format: 'json' } : {}),
+                options: {
+                    temperature: config.temperature,
+                    num_predict: config.maxOutputTokens,
+                },
+            },
+            {},
+            timeoutMs
+        );
+
+        return response.message ? response.message.content : null;
+    }
+}
+
+// 設定に応じたプロバイダーを生成する
+export function createProvider(settings: SortInboxSettings): LLMProvider {
+    switch (settings.llmProvider) {
+        case 'openai':
+            return new OpenAICompatibleProvider(settings.openaiBaseUrl, settings.openaiApiKey, settings.openaiModel);
+        case 'ollama':
+            return new OllamaProvider(settings.ollamaBaseUrl, settings.ollamaModel);
+        case 'gemini':
+        default:
+            return new GeminiProvider(settings.geminiApiKey);
+    }
+}
@@ -0,0 +1,65 @@
+import { App, Events } from 'obsidian';
+
+// 確信度が低く、確認待ちになっているメモ
+export interface ReviewQueueItem {
+    path: string;
+    // 提案された分類先フォルダ
+    proposedFolder: string | null;
+    confidence?: number;
+    // 分類したプロファイルのID（分類先フォルダの解決に使う）
+    profileId?: string;
+    timestamp: number;
+}
+
+// 確認待ちのメモを永続化するキュー
+// 保存のたびに'changed'イベントを発火する
+export class ReviewQueue extends Events {
+    private items: ReviewQueueItem[] = [];
+
+    constructor(private app: App, private queuePath: string) {
+        super();
+    }
+
+    // キューファイルを読み込む
+    async load(): Promise<void> {
+        try {
+            if (await this.app.vault.adapter.exists(this.queuePath)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.queuePath));
+                this.items = Array.isArray(data.items) ? data.items : [];
+            }
+        } catch (error) {
+            console.error('確認待ちキューの読み込み中にエラーが発生:', error);
+            this.items = [];
+        }
+    }
+
+    // キューファイルを保存する
+    async save(): Promise<void> {
+        await this.app.vault.adapter.write(this.queuePath, JSON.stringify({ items: this.items }, null, 2));
+        this.trigger('changed');
+    }
+
+    getItems(): ReviewQueueItem[] {
+        return [...this.items];
+    }
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    // 指定したパスのメモが確認待ちか
+    has(path: string): boolean {
+        return this.items.some(item => item.path === path);
+    }
+
+    // メモを確認待ちに追加する（同じパスのメモは提案を更新する）
+    add(item: Omit<ReviewQueueItem, 'timestamp'>): void {
+        this.items = this.items.filter(existing => existing.path !== item.path);
+        this.items.push({ ...item, timestamp: Date.now() });
+    }
+
+    // 指定したパスのメモを確認待ちから外す
+    remove(paths: string[]): void {
+        this.items = this.items.filter(item => !paths.includes(item.path));
+    }
+}
@@ -0,0 +1,130 @@
+import { CachedMetadata, TFile, getAllTags } from 'obsidian';
+import { ClassificationRule, ClassificationRuleType } from './types';
+
+// ルール種類の表示名
+export const RULE_TYPE_LABELS: Record<ClassificationRuleType, string> = {
+    title: 'タイトル（正規表現）',
+    frontmatter: 'プロパティの値',
+    tag: 'タグ',
+    keyword: '本文のキーワード',
+    domain: 'ソースURLのドメイン',
+};
+
+// ソースURLとして参照するプロパティ名
+const SOURCE_URL_PROPERTIES = ['source', 'url'];
+
+// ノート自身が分類先を指定するプロパティ（例：sort-to: 技術メモ）
+export const OVERRIDE_PROPERTY = 'sort-to';
+
+// ノートを分類対象から除外するプロパティ（例：sort-inbox: skip）
+export const OPT_OUT_PROPERTY = 'sort-inbox';
+
+// frontmatterで指定された分類先を取得する（指定がなければnull）
+export function getFrontmatterOverride(cache: CachedMetadata | null): string | null {
+    const value = cache?.frontmatter?.[OVERRIDE_PROPERTY];
+    if (typeof value !== 'string' || !value.trim()) {
+        return null;
+    }
+    // 「[[技術メモ]]」のようなリンク形式や末尾のスラッシュも受け付ける
+    // 先頭の「/」はVault絶対パスの指定として残す（分類先フォルダの一覧と照合する際に解決する）
+    return value.trim().replace(/^\[\[(.*)\]\]$/, '$1').replace(/\/+$/, '') || null;
+}
+
+// frontmatterで分類対象外に指定されているか
+export function isOptedOut(cache: CachedMetadata | null): boolean {
+    const value = cache?.frontmatter?.[OPT_OUT_PROPERTY];
+    return value === false || (typeof value === 'string' && value.trim().toLowerCase() === 'skip');
+}
+
+// ルールを順番に評価し、最初に一致したルールの分類先を返す（一致しなければnull）
+export function evaluateRules(
+    rules: ClassificationRule[],
+    file: TFile,
+    content: string,
+    cache: CachedMetadata | null,
+    targetFolders: string[]
+): ClassificationRule | null {
+    for (const rule of rules) {
+        // 無効なルールや分類先が一覧にないルールは無視する
+        if (!rule.enabled || !rule.pattern || !targetFolders.includes(rule.targetFolder)) {
+            continue;
+        }
+        if (matchesRule(rule, file, content, cache)) {
+            return rule;
+        }
+    }
+    return null;
+}
+
+// 1つのルールがファイルに一致するかを判定する
+export function matchesRule(rule: ClassificationRule, file: TFile, content: string, cache: CachedMetadata | null): boolean {
+    const pattern = rule.pattern.trim();
+
+    switch (rule.type) {
+        case 'title':
+            try {
+                return new RegExp(pattern, 'i').test(file.basename);
+            } catch (error) {
+                console.warn(`分類ルールの正規表現が不正です: ${pattern}`, error);
+                return false;
+            }
+        case 'frontmatter': {
+            const frontmatter = cache?.frontmatter;
+            if (!rule.property || !frontmatter || !(rule.property in frontmatter)) {
+                return false;
+            }
+            const value = frontmatter[rule.property];
+            const values = Array.isArray(value) ? value : [value];
+            return values.some(v => v !== null && v !== undefined && String(v).toLowerCase() === pattern.toLowerCase());
+        }
+        case 'tag': {
+            if (!cache) {
+                return false;
+            }
+            // 「#meeting」は「#meeting/weekly」のようなネストしたタグにも一致する
+            const tag = pattern.replace(/^#/, '').toLowerCase();
+            const tags = (getAllTags(cache) || []).map(t => t.replace(/^#/, '').toLowerCase());
+            return tags.some(t => t === tag || t.startsWith(tag + '/'));
+        }
+        case 'keyword':
+            return content.toLowerCase().includes(pattern.toLowerCase());
+        case 'domain': {
+            const domain = pattern.replace(/^https?:\/\//, '').replace(/\/.*$/, '').toLowerCase();
+            return extractSourceUrls(content, cache).some(url => {
+                const hostname = getHostname(url);
+                return hostname !== null && (hostname === domain || hostname.endsWith('.' + domain));
+            });
+        }
+        default:
+            return false;
+    }
+}
+
+// プロパティ（source/url）と本文からURLを抽出する
+function extractSourceUrls(content: string, cache: CachedMetadata | null): string[] {
+    const urls: string[] = [];
+    const frontmatter = cache?.frontmatter;
+
+    if (frontmatter) {
+        for (const property of SOURCE_URL_PROPERTIES) {
+            const value = frontmatter[property];
+            (Array.isArray(value) ? value : [value])
+                .filter(v => typeof v === 'string')
+                .forEach(v => urls.push(v));
+        }
+    }
+
+    const bodyUrls = content.match(/https?:\/\/[^\s)>\]"'`]+/g);
+    if (bodyUrls) {
+        urls.push(...bodyUrls);
+    }
+    return urls;
+}
+
+function getHostname(url: string): string | null {
+    try {
+        return new URL(url).hostname.toLowerCase();
+    } catch (error) {
+        return null;
+    }
+}
@@ -0,0 +1,111 @@
+import { LLMProviderType } from './types';
+
+// HTTPステータス付きのAPIエラー（リトライの判定に使う）
+export class APIRequestError extends Error {
+    constructor(message: string, public status: number, public retryAfterMs?: number) {
+        super(message);
+        this.name = 'APIRequestError';
+    }
+}
+
+// 1分あたりのリクエスト数の計測期間
+const WINDOW_MS = 60000;
+// 指数バックオフの初期待機時間と上限
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+
+// レート制限（429）とサーバーエラー（5xx）はリトライする
+export function isRetryableError(error: unknown): error is APIRequestError {
+    return error instanceof APIRequestError && (error.status === 429 || error.status >= 500);
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// APIリクエストのスケジューラー（プロバイダーごとに1つ）
+// 1分あたりのリクエスト数を制限し、429・5xxの応答は指数バックオフで再試行する
+export class RequestScheduler {
+    private requestsPerMinute = 15;
+    private maxRetries = 3;
+    // 直近1分間に送信したリクエストの時刻
+    private timestamps: number[] = [];
+    // サーバーから待機を指示された場合、この時刻まですべてのリクエストを止める
+    private pausedUntil = 0;
+    // 送信枠の取得を順番に処理するためのキュー
+    private queue: Promise<void> = Promise.resolve();
+
+    // 1分あたりの上限（0の場合は無制限）と最大リトライ回数を設定する
+    configure(requestsPerMinute: number, maxRetries: number): void {
+        this.requestsPerMinute = Math.max(0, requestsPerMinute);
+        this.maxRetries = Math.max(0, maxRetries);
+    }
+
+    async schedule<T>(request: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            await this.acquireSlot();
+            try {
+                return await request();
+            } catch (error) {
+                if (attempt >= this.maxRetries || !isRetryableError(error)) {
+                    throw error;
+                }
+                const delay = this.getRetryDelay(error, attempt);
+                // レート制限の場合は他のリクエストも合わせて待たせる
+                if (error.status === 429) {
+                    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+                }
+                console.warn(`APIリクエストが失敗したため、${Math.ceil(delay / 1000)}秒後に再試行します（${attempt + 1}/${this.maxRetries}）: ${error.message}`);
+                await sleep(delay);
+            }
+        }
+    }
+
+    // サーバーが指定した待機時間を優先し、なければ指数バックオフ（ゆらぎ付き）で待つ
+    private getRetryDelay(error: APIRequestError, attempt: number): number {
+        const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempt));
+        const jittered = backoff + Math.random() * backoff * 0.2;
+        return error.retryAfterMs !== undefined ? Math.max(error.retryAfterMs, jittered) : jittered;
+    }
+
+    private acquireSlot(): Promise<void> {
+        const slot = this.queue.then(() => this.waitForSlot());
+        this.queue = slot.catch(() => undefined);
+        return slot;
+    }
+
+    // 待機指示の解除と、直近1分間のリクエスト数が上限を下回るのを待つ
+    private async waitForSlot(): Promise<void> {
+        for (;;) {
+            const now = Date.now();
+            if (now < this.pausedUntil) {
+                await sleep(this.pausedUntil - now);
+                continue;
+            }
+            if (this.requestsPerMinute <= 0) {
+                return;
+            }
+            this.timestamps = this.timestamps.filter(timestamp => now - timestamp < WINDOW_MS);
+            if (this.timestamps.length < this.requestsPerMinute) {
+                this.timestamps.push(now);
+                return;
+            }
+            await sleep(this.timestamps[0] + WINDOW_MS - now);
+        }
+    }
+}
+
+// プロバイダーごとのスケジューラー（APIの利用上限はプロバイダーごとに別のため、送信枠を共有しない）
+export const requestSchedulers: Record<LLMProviderType, RequestScheduler> = {
+    gemini: new RequestScheduler(),
+    openai: new RequestScheduler(),
+    ollama: new RequestScheduler(),
+};
+
+// すべてのスケジューラーに設定を反映する
+// ローカルのOllamaサーバーにはAPIの利用上限がないため、1分あたりのリクエスト数は制限しない
+export function configureRequestSchedulers(requestsPerMinute: number, maxRetries: number): void {
+    (Object.keys(requestSchedulers) as LLMProviderType[]).forEach(type => {
+        requestSchedulers[type].configure(type === 'ollama' ? 0 : requestsPerMinute, maxRetries);
+    });
+}
@@ -1,39 +1,174 @@
-import { App, PluginSettingTab, Setting, Notice, setIcon, ButtonComponent } from 'obsidian';
+import { App, Modal, PluginSettingTab, Setting, Notice, setIcon, ButtonComponent } from 'obsidian';
 import SortInboxPlugin from './main';
-import { ClassificationOptions } from './types';
-import { testGeminiAPI } from './classify';
+import { ApplyMode, ClassificationMethod, ClassificationOptions, ClassificationRule, ClassificationRuleType, CollisionPolicy, EnrichmentOptions, FolderDiscoveryOptions, InboxProfile, InboxScanOptions, InboxProfileSettings, LLMProviderType, TargetFolderDetail, TargetFolderSource, UnclassifiedPolicy } from './types';
+import { testProviderConnection } from './classify';
+import { createProvider, PROVIDER_DISPLAY_NAMES } from './providers';
+import { RULE_TYPE_LABELS } from './rules';
+import { COLLISION_POLICY_LABELS } from './collision';
+import { CLASSIFICATION_METHOD_LABELS } from './local';
+import { UNCLASSIFIED_POLICY_LABELS, getEffectiveUnclassifiedPolicy } from './unclassified';
+import { APPLY_MODE_LABELS } from './annotate';
+import { DEFAULT_PROFILE_ID, DEFAULT_PROFILE_NAME, applyProfile, createProfile } from './profiles';
+import { resolveTargetFolderPath, resolveTargetFolders } from './folders';
 
 export interface SortInboxSettings {
+	// 分類方法（LLM・ローカル分類器・LLMが失敗した場合にローカル分類器）
+	classificationMethod: ClassificationMethod;
+	
+	// 使用するLLMプロバイダー
+	llmProvider: LLMProviderType;
+	
 	// Gemini APIキー
 	geminiApiKey: string;
 	
-	// 分類対象フォルダリスト
+	// OpenAI互換APIのベースURL・APIキー・モデル名
+	openaiBaseUrl: string;
+	openaiApiKey: string;
+	openaiModel: string;
+	
+	// OllamaサーバーのURLとモデル名
+	ollamaBaseUrl: string;
+	ollamaModel: string;
+	
+	// 分類対象フォルダの取得方法
+	targetFolderSource: TargetFolderSource;
+	
+	// 分類対象フォルダリスト（手動指定時）
 	targetFolders: string[];
 	
+	// 分類対象フォルダの自動検出条件
+	folderDiscovery: FolderDiscoveryOptions;
+	
+	// 分類対象フォルダごとの説明・判断基準・例（フォルダ名がキー）
+	folderDetails: Record<string, TargetFolderDetail>;
+	
+	// LLMより先に上から順に評価される分類ルール
+	rules: ClassificationRule[];
+	
 	// メモが保存されるルートフォルダ
 	inboxFolder: string;
 	
+	// 監視対象フォルダ内のメモを探す条件（サブフォルダの階層・グロブパターン）
+	inboxScan: InboxScanOptions;
+	
+	// AIへのプロンプトに追加する指示
+	promptInstructions: string;
+	
+	// 追加の監視対象フォルダのプロファイル（上記の設定はデフォルトのプロファイルとして扱う）
+	profiles: InboxProfile[];
+	
 	// 分類処理の頻度（分単位、0は手動のみ）
 	autoClassifyInterval: number;
 	
 	// 自動分類が有効かどうか
 	autoClassifyEnabled: boolean;
 	
+	// 移動前に分類結果のプレビューを表示するかどうか
+	previewBeforeMove: boolean;
+	
+	// 分類結果の反映方法（フォルダに移動する、またはメモにプロパティ・タグとして書き込む）
+	applyMode: ApplyMode;
+	
+	// 分類結果を書き込むプロパティ名
+	categoryProperty: string;
+	
+	// 分類結果として付けるタグの書式（{folder}が分類先フォルダ名に置き換わる）
+	categoryTagFormat: string;
+	
+	// 分類時にAIに生成させる要約・キーワード・タグ
+	enrichment: EnrichmentOptions;
+	
+	// 移動先に同名ファイルがある場合の対応
+	collisionPolicy: CollisionPolicy;
+	
+	// メモが埋め込んでいる添付ファイル（監視対象フォルダ内にあり、他のメモから参照されていないもの）を一緒に移動するか
+	moveAttachments: boolean;
+	
+	// 添付ファイルの移動先（分類先フォルダからの相対パス、空の場合は分類先フォルダ）
+	attachmentFolder: string;
+	
+	// 分類先が見つからなかったメモの対応
+	unclassifiedPolicy: UnclassifiedPolicy;
+	
+	// 分類先が見つからなかったメモの移動先（未分類フォルダに移動する場合）
+	unsortedFolder: string;
+	
+	// 分類先が見つからなかったメモに付けるタグ（タグを付けて残す場合）
+	unsortedTag: string;
+	
+	// 分類先が見つからなかったメモを再試行するまでの日数（内容が変わった場合はすぐに再試行する）
+	unclassifiedRetryDays: number;
+	
+	// 分類先が見つからなかったメモを再試行する上限回数（0は無制限）
+	unclassifiedMaxAttempts: number;
+	
 	// 詳細な分類オプション
 	classificationOptions: ClassificationOptions;
 }
 
 export const DEFAULT_SETTINGS: SortInboxSettings = {
+	classificationMethod: 'llm',
+	llmProvider: 'gemini',
 	geminiApiKey: '',
+	openaiBaseUrl: 'https://api.openai.com/v1',
+	openaiApiKey: '',
+	openaiModel: 'gpt-4o-mini',
+	ollamaBaseUrl: 'http://localhost:11434',
+	ollamaModel: 'llama3.1',
+	targetFolderSource: 'manual',
 	targetFolders: ['技術メモ', '日記', '思考ログ'],
+	folderDiscovery: {
+		root: '',
+		include: [],
+		exclude: [],
+		maxDepth: 2
+	},
+	folderDetails: {},
+	rules: [],
 	inboxFolder: 'メモ',
+	inboxScan: {
+		recursive: false,
+		maxDepth: 3,
+		include: [],
+		exclude: [],
+		extensions: []
+	},
+	promptInstructions: '',
+	profiles: [],
 	autoClassifyInterval: 0, // デフォルトでは手動実行のみ
 	autoClassifyEnabled: false,
+	previewBeforeMove: false,
+	applyMode: 'move',
+	categoryProperty: 'category',
+	categoryTagFormat: 'category/{folder}',
+	enrichment: {
+		summary: false,
+		keywords: false,
+		tags: false,
+		summaryProperty: 'summary',
+		keywordsProperty: 'keywords'
+	},
+	collisionPolicy: 'suffix',
+	moveAttachments: false,
+	attachmentFolder: '',
+	unclassifiedPolicy: 'leave',
+	unsortedFolder: '未分類',
+	unsortedTag: '未分類',
+	unclassifiedRetryDays: 7,
+	unclassifiedMaxAttempts: 3,
 	classificationOptions: {
 		maxContentLength: 1000, // 最初の1000文字だけ使用
+		batchExcerptLength: 300, // 一括分類では各ファイル300文字まで
+		batchInputTokenBudget: 6000,
+		batchMaxOutputTokens: 2048,
 		timeoutMs: 10000, // 10秒タイムアウト
+		requestsPerMinute: 15, // Geminiの無料枠（1分間に15リクエスト）に合わせる
+		maxRetries: 3,
+		cacheResults: true, // 変更のないメモは前回の分類結果を再利用
 		logResults: true,
-		skipUnclassified: true,
+		confidenceThreshold: 0, // デフォルトでは確信度に関係なく移動
+		fewShotExamplesPerFolder: 0, // デフォルトでは既存メモの例を含めない
+		fewShotTokenBudget: 800,
 		highAccuracyMode: false, // デフォルトでは効率優先モード
 		apiKeyStatus: 'unverified', // 初期状態は未検証
 		lastApiKeyVerification: undefined // 未検証
@@ -44,6 +179,8 @@ export class SortInboxSettingTab extends PluginSettingTab {
 	plugin: SortInboxPlugin;
 	folderInputEl: HTMLInputElement;
 	private apiTestInProgress = false;
+	// 編集中のプロファイル（デフォルトのプロファイルはDEFAULT_PROFILE_ID）
+	private editingProfileId = DEFAULT_PROFILE_ID;
 
 	constructor(app: App, plugin: SortInboxPlugin) {
 		super(app, plugin);
@@ -52,6 +189,7 @@ export class SortInboxSettingTab extends PluginSettingTab {
 
 	display(): void {
 		const {containerEl} = this;
+		const profile = this.getEditingProfile();
 
 		containerEl.empty();
 		containerEl.addClass('sort-inbox-settings');
@@ -62,26 +200,52 @@ export class SortInboxSettingTab extends PluginSettingTab {
 		// タイトルとプラグイン説明
 		const headerEl = containerEl.createEl('div', { cls: 'sort-inbox-header' });
 		headerEl.createEl('h2', {text: 'Sort Inbox - メモ自動分類'});
-		headerEl.createEl('p', {text: 'Gemini 2.0 Flash AIを使用して、メモフォルダのファイルを内容に基づいて自動分類します。'});
+		headerEl.createEl('p', {text: 'AI（Gemini・OpenAI互換API・Ollama）を使用して、メモフォルダのファイルを内容に基づいて自動分類します。'});
 
 		// API設定セクション
 		this.createSectionTitle(containerEl, 'API設定', 'key');
 		
 		new Setting(containerEl)
-			.setName('Gemini API キー')
-			.setDesc('Google AI Studio で取得したGemini APIキーを入力してください')
-			.addText(text => text
-				.setPlaceholder('API キーを入力')
-				.setValue(this.plugin.settings.geminiApiKey)
-				.onChange(async (value) => {
-					this.plugin.settings.geminiApiKey = value;
-					await this.plugin.saveSettings();
-				}));
+			.setName('分類方法')
+			.setDesc('ローカル分類器は、分類先フォルダにある既存のメモとの類似度でオフラインで分類します。APIの利用上限やオフライン時の代替としても使えます')
+			.addDropdown(dropdown => {
+				(Object.keys(CLASSIFICATION_METHOD_LABELS) as ClassificationMethod[]).forEach(method => {
+					dropdown.addOption(method, CLASSIFICATION_METHOD_LABELS[method]);
+				});
+				dropdown
+					.setValue(this.plugin.settings.classificationMethod)
+					.onChange(async (value) => {
+						this.plugin.settings.classificationMethod = value as ClassificationMethod;
+						await this.plugin.saveSettings();
+					});
+			});
+		
+		new Setting(containerEl)
+			.setName('LLMプロバイダー')
+			.setDesc('メモの分類に使用するAIサービスを選択します。Ollamaを選ぶとメモを外部に送信せずに分類できます')
+			.addDropdown(dropdown => {
+				(Object.keys(PROVIDER_DISPLAY_NAMES) as LLMProviderType[]).forEach(type => {
+					dropdown.addOption(type, PROVIDER_DISPLAY_NAMES[type]);
+				});
+				dropdown
+					.setValue(this.plugin.settings.llmProvider)
+					.onChange(async (value) => {
+						this.plugin.settings.llmProvider = value as LLMProviderType;
+						// プロバイダーが変わったら検証ステータスをリセット
+						this.plugin.settings.classificationOptions.apiKeyStatus = 'unverified';
+						await this.plugin.saveSettings();
+						// 選択したプロバイダーの設定項目を表示し直す
+						this.display();
+					});
+			});
+		
+		// 選択中のプロバイダーの設定項目
+		this.addProviderSettings(containerEl);
 
 		// APIキーの検証ボタンとステータス表示
 		const apiTestSetting = new Setting(containerEl)
-			.setName('APIキーのテスト')
-			.setDesc('入力したAPIキーが有効かテストします');
+			.setName('接続テスト')
+			.setDesc('選択したプロバイダーに接続できるかテストします');
 			
 		// API検証ステータス表示用のdiv
 		const apiStatusEl = containerEl.createEl('div', {
@@ -117,9 +281,11 @@ export class SortInboxSettingTab extends PluginSettingTab {
 					return;
 				}
 				
-				// APIキーが空の場合
-				if (!this.plugin.settings.geminiApiKey) {
-					new Notice('APIキーが入力されていません');
+				// 必須設定が不足している場合
+				const provider = createProvider(this.plugin.settings);
+				const configError = provider.validateConfig();
+				if (configError) {
+					new Notice(configError);
 					apiStatusEl.textContent = '未入力';
 					apiStatusEl.className = 'api-status api-status-error';
 					
@@ -136,19 +302,19 @@ export class SortInboxSettingTab extends PluginSettingTab {
 				
 				try {
 					// API検証を実行
-					const isValid = await testGeminiAPI(this.plugin.settings.geminiApiKey);
+					const isValid = await testProviderConnection(provider, this.plugin.settings.classificationOptions.timeoutMs);
 					
 					if (isValid) {
 						apiStatusEl.textContent = '有効 ✓';
 						apiStatusEl.className = 'api-status api-status-valid';
-						new Notice('APIキーは有効です！');
+						new Notice(`${provider.displayName}に接続できました！`);
 						
 						// 検証ステータスを保存
 						this.plugin.settings.classificationOptions.apiKeyStatus = 'valid';
 					} else {
 						apiStatusEl.textContent = '無効 ✗';
 						apiStatusEl.className = 'api-status api-status-error';
-						new Notice('APIキーが無効です。正しいキーを入力してください。');
+						new Notice(`${provider.displayName}から期待した応答が得られませんでした。設定を確認してください。`);
 						
 						// 検証ステータスを保存
 						this.plugin.settings.classificationOptions.apiKeyStatus = 'invalid';
@@ -175,14 +341,28 @@ export class SortInboxSettingTab extends PluginSettingTab {
 		// フォルダ設定セクション
 		this.createSectionTitle(containerEl, 'フォルダ設定', 'folder');
 		
+		this.addProfileSettings(containerEl);
+		
 		new Setting(containerEl)
 			.setName('メモを保存するフォルダ')
 			.setDesc('新規メモが保存される監視対象のフォルダ名（例：メモ/）')
 			.addText(text => text
 				.setPlaceholder('メモ')
-				.setValue(this.plugin.settings.inboxFolder)
+				.setValue(profile.inboxFolder)
 				.onChange(async (value) => {
-					this.plugin.settings.inboxFolder = value;
+					profile.inboxFolder = value;
+					await this.plugin.saveSettings();
+				}));
+		
+		this.addInboxScanSettings(containerEl);
+		
+		new Setting(containerEl)
+			.setName('追加の指示')
+			.setDesc('AIへのプロンプトに追加する指示（例：仕事のメモはプロジェクト名で判断してください）')
+			.addTextArea(text => text
+				.setValue(profile.promptInstructions || '')
+				.onChange(async (value) => {
+					profile.promptInstructions = value;
 					await this.plugin.saveSettings();
 				}));
 
@@ -195,9 +375,9 @@ export class SortInboxSettingTab extends PluginSettingTab {
 			.setName('自動分類を有効にする')
 			.setDesc('ONにすると設定した間隔で自動的にメモを分類します')
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.autoClassifyEnabled)
+				.setValue(profile.autoClassifyEnabled)
 				.onChange(async (value) => {
-					this.plugin.settings.autoClassifyEnabled = value;
+					profile.autoClassifyEnabled = value;
 					await this.plugin.saveSettings();
 					// クラスで表示/非表示を制御
 					intervalSetting.settingEl.classList.toggle('is-hidden', !value);
@@ -205,9 +385,9 @@ export class SortInboxSettingTab extends PluginSettingTab {
 					if (!value) {
 						intervalLabel.textContent = '手動実行のみ';
 					} else {
-						intervalLabel.textContent = this.plugin.settings.autoClassifyInterval === 0
+						intervalLabel.textContent = profile.autoClassifyInterval === 0
 							? '手動実行のみ'
-							: `${this.plugin.settings.autoClassifyInterval}分ごとに実行`;
+							: `${profile.autoClassifyInterval}分ごとに実行`;
 					}
 				}));
 				
@@ -217,10 +397,10 @@ export class SortInboxSettingTab extends PluginSettingTab {
 			.setClass('interval-setting')
 			.addSlider(slider => slider
 				.setLimits(0, 60, 5)
-				.setValue(this.plugin.settings.autoClassifyInterval)
+				.setValue(profile.autoClassifyInterval)
 				.setDynamicTooltip()
 				.onChange(async (value) => {
-					this.plugin.settings.autoClassifyInterval = value;
+					profile.autoClassifyInterval = value;
 					await this.plugin.saveSettings();
 					
 					// 値に応じてラベルを更新
@@ -230,7 +410,7 @@ export class SortInboxSettingTab extends PluginSettingTab {
 				}));
 		
 		// インターバル設定の表示/非表示（自動分類が無効なら隠す）
-		if (!this.plugin.settings.autoClassifyEnabled) {
+		if (!profile.autoClassifyEnabled) {
 			intervalSetting.settingEl.classList.add('is-hidden');
 		} else {
 			intervalSetting.settingEl.classList.remove('is-hidden');
@@ -239,11 +419,21 @@ export class SortInboxSettingTab extends PluginSettingTab {
 		// インターバルの値をラベルで表示
 		const intervalLabel = containerEl.createEl('div', {
 			cls: 'interval-label',
-			text: this.plugin.settings.autoClassifyEnabled ? 
-				(this.plugin.settings.autoClassifyInterval === 0 ? '手動実行のみ' : `${this.plugin.settings.autoClassifyInterval}分ごとに実行`) : 
+			text: profile.autoClassifyEnabled ? 
+				(profile.autoClassifyInterval === 0 ? '手動実行のみ' : `${profile.autoClassifyInterval}分ごとに実行`) : 
 				'手動実行のみ'
 		});
 
+		new Setting(containerEl)
+			.setName('移動前にプレビューを表示')
+			.setDesc('ONにすると、分類結果を一覧で確認し、承認したファイルだけを移動します（自動分類時も表示されます）')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.previewBeforeMove)
+				.onChange(async (value) => {
+					this.plugin.settings.previewBeforeMove = value;
+					await this.plugin.saveSettings();
+				}));
+
 		this.addSeparator(containerEl);
 
 		// 分類先フォルダリストの表示
@@ -254,54 +444,118 @@ export class SortInboxSettingTab extends PluginSettingTab {
 			text: 'メモの内容から適切なフォルダを判断し、自動的に移動します。以下のフォルダリストから選択されます。'
 		});
 		
+		const isManual = profile.targetFolderSource !== 'vault';
+		
+		new Setting(containerEl)
+			.setName('フォルダの指定方法')
+			.setDesc('手動で指定するか、Vault内の既存フォルダから自動で検出するかを選択します')
+			.addDropdown(dropdown => dropdown
+				.addOption('manual', '手動で指定')
+				.addOption('vault', 'Vaultのフォルダから自動検出')
+				.setValue(profile.targetFolderSource)
+				.onChange(async (value) => {
+					profile.targetFolderSource = value as TargetFolderSource;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+		
 		const folderListContainer = containerEl.createDiv('folder-list-container');
 		
+		// 自動検出の条件（変更するたびに検出結果を更新する）
+		if (!isManual) {
+			this.addDiscoverySettings(containerEl, () => this.refreshFolderList(folderListContainer));
+			// 条件の入力欄を一覧より上に表示する
+			containerEl.appendChild(folderListContainer);
+		}
+		
 		// 既存のフォルダを表示
 		this.refreshFolderList(folderListContainer);
 		
-		// フォルダ追加の入力欄とボタン
-		const folderAddContainer = containerEl.createDiv('folder-add-container');
+		if (isManual) {
+			// フォルダ追加の入力欄とボタン
+			const folderAddContainer = containerEl.createDiv('folder-add-container');
 		
-		const folderInputEl = folderAddContainer.createEl('input', {
-			type: 'text',
-			placeholder: '新しいフォルダ名を入力',
-			cls: 'folder-input'
-		});
-		this.folderInputEl = folderInputEl;
+			const folderInputEl = folderAddContainer.createEl('input', {
+				type: 'text',
+				placeholder: '新しいフォルダ名を入力（「/」で始めるとVault内の絶対パス）',
+				cls: 'folder-input'
+			});
+			this.folderInputEl = folderInputEl;
 		
-		const addButton = new ButtonComponent(folderAddContainer)
-			.setButtonText('追加')
-			.setCta()
-			.onClick(async () => {
-				if (folderInputEl.value) {
+			const addButton = new ButtonComponent(folderAddContainer)
+				.setButtonText('追加')
+				.setCta()
+				.onClick(async () => {
+					if (folderInputEl.value) {
+						// 重複チェック
+						if (profile.targetFolders.includes(folderInputEl.value)) {
+							new Notice('このフォルダは既に追加されています');
+							return;
+						}
+					
+						profile.targetFolders.push(folderInputEl.value);
+						await this.plugin.saveSettings();
+						this.refreshFolderList(folderListContainer);
+						folderInputEl.value = '';
+					}
+				});
+		
+			// エンターキーで追加できるようにする
+			folderInputEl.addEventListener('keypress', async (e) => {
+				if (e.key === 'Enter' && folderInputEl.value) {
 					// 重複チェック
-					if (this.plugin.settings.targetFolders.includes(folderInputEl.value)) {
+					if (profile.targetFolders.includes(folderInputEl.value)) {
 						new Notice('このフォルダは既に追加されています');
 						return;
 					}
-					
-					this.plugin.settings.targetFolders.push(folderInputEl.value);
+				
+					profile.targetFolders.push(folderInputEl.value);
 					await this.plugin.saveSettings();
 					this.refreshFolderList(folderListContainer);
 					folderInputEl.value = '';
 				}
 			});
+		}
+
+		this.addSeparator(containerEl);
 		
-		// エンターキーで追加できるようにする
-		folderInputEl.addEventListener('keypress', async (e) => {
-			if (e.key === 'Enter' && folderInputEl.value) {
-				// 重複チェック
-				if (this.plugin.settings.targetFolders.includes(folderInputEl.value)) {
-					new Notice('このフォルダは既に追加されています');
-					return;
-				}
-				
-				this.plugin.settings.targetFolders.push(folderInputEl.value);
-				await this.plugin.saveSettings();
-				this.refreshFolderList(folderListContainer);
-				folderInputEl.value = '';
-			}
+		// 分類ルールセクション
+		this.createSectionTitle(containerEl, '分類ルール', 'list-checks');
+		
+		containerEl.createEl('p', {
+			cls: 'setting-description',
+			text: 'ルールは上から順に評価され、最初に一致したルールの分類先に移動します。一致するルールがない場合のみAIで分類します。'
+		});
+		
+		const ruleListContainer = containerEl.createDiv('rule-list-container');
+		this.refreshRuleList(ruleListContainer);
+		
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('ルールを追加')
+				.setCta()
+				.onClick(async () => {
+					profile.rules.push({
+						type: 'title',
+						pattern: '',
+						targetFolder: resolveTargetFolders(this.getEditingSettings(), this.app.vault)[0] || '',
+						enabled: true
+					});
+					await this.plugin.saveSettings();
+					this.refreshRuleList(ruleListContainer);
+				}));
+
+		this.addSeparator(containerEl);
+		
+		// メタデータの生成セクション
+		this.createSectionTitle(containerEl, 'メタデータの生成', 'sparkles');
+		
+		containerEl.createEl('p', {
+			cls: 'setting-description',
+			text: 'AIで分類する際に、要約・キーワード・タグも生成してメモのプロパティに書き込みます（既に値があるプロパティは上書きしません）。有効な場合は、メモを1件ずつ分類します。'
 		});
+		
+		this.addEnrichmentSettings(containerEl);
 
 		this.addSeparator(containerEl);
 				
@@ -310,7 +564,7 @@ export class SortInboxSettingTab extends PluginSettingTab {
 		
 		new Setting(containerEl)
 			.setName('抽出する最大文字数')
-			.setDesc('メモからGemini APIに送信する最大文字数（長いと処理時間とトークン消費が増えます）')
+			.setDesc('メモからAIに送信する最大文字数（長いと処理時間とトークン消費が増えます）')
 			.addSlider(slider => slider
 				.setLimits(100, 3000, 100)
 				.setValue(this.plugin.settings.classificationOptions.maxContentLength || 1000)
@@ -320,6 +574,44 @@ export class SortInboxSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 				
+		new Setting(containerEl)
+			.setName('一括分類で抽出する最大文字数')
+			.setDesc('複数のメモをまとめて分類するときに、各メモからAIに送信する最大文字数')
+			.addSlider(slider => slider
+				.setLimits(100, 1000, 50)
+				.setValue(this.plugin.settings.classificationOptions.batchExcerptLength || 300)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.classificationOptions.batchExcerptLength = value;
+					await this.plugin.saveSettings();
+				}));
+				
+		new Setting(containerEl)
+			.setName('一括分類の入力トークン上限')
+			.setDesc('1回のリクエストで送信するトークン数の目安。超える場合はメモを分割して複数回に分けて送信します')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.classificationOptions.batchInputTokenBudget || 6000))
+				.onChange(async (value) => {
+					const numValue = parseInt(value);
+					if (!isNaN(numValue) && numValue > 0) {
+						this.plugin.settings.classificationOptions.batchInputTokenBudget = numValue;
+						await this.plugin.saveSettings();
+					}
+				}));
+				
+		new Setting(containerEl)
+			.setName('一括分類の出力トークン上限')
+			.setDesc('1回のリクエストでAIが返す最大トークン数。回答が途中で切れないよう、この範囲に収まる件数ずつ送信します')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.classificationOptions.batchMaxOutputTokens || 2048))
+				.onChange(async (value) => {
+					const numValue = parseInt(value);
+					if (!isNaN(numValue) && numValue > 0) {
+						this.plugin.settings.classificationOptions.batchMaxOutputTokens = numValue;
+						await this.plugin.saveSettings();
+					}
+				}));
+				
 		new Setting(containerEl)
 			.setName('APIタイムアウト（ミリ秒）')
 			.setDesc('API呼び出しのタイムアウト時間（ミリ秒）')
@@ -334,15 +626,238 @@ export class SortInboxSettingTab extends PluginSettingTab {
 				}));
 				
 		new Setting(containerEl)
-			.setName('分類できなかったメモをスキップ')
-			.setDesc('ONにすると、分類先が特定できなかったメモを移動しません')
+			.setName('1分あたりのリクエスト数')
+			.setDesc('APIへのリクエスト数の上限（プロバイダーごと）。上限に達した場合は空きができるまで待ちます。0の場合は制限しません。Ollamaには適用されません')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.classificationOptions.requestsPerMinute ?? 15))
+				.onChange(async (value) => {
+					const numValue = parseInt(value);
+					if (!isNaN(numValue) && numValue >= 0) {
+						this.plugin.settings.classificationOptions.requestsPerMinute = numValue;
+						await this.plugin.saveSettings();
+					}
+				}));
+				
+		new Setting(containerEl)
+			.setName('最大リトライ回数')
+			.setDesc('レート制限（429）やサーバーエラー（5xx）の場合に、待機時間を延ばしながら再試行する回数')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.classificationOptions.maxRetries ?? 3))
+				.onChange(async (value) => {
+					const numValue = parseInt(value);
+					if (!isNaN(numValue) && numValue >= 0) {
+						this.plugin.settings.classificationOptions.maxRetries = numValue;
+						await this.plugin.saveSettings();
+					}
+				}));
+				
+		new Setting(containerEl)
+			.setName('分類結果をキャッシュする')
+			.setDesc('内容と分類先の設定（フォルダ・説明・ルール）が変わっていないメモは、前回の分類結果を再利用してAPIを呼び出しません')
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.classificationOptions.skipUnclassified || true)
+				.setValue(this.plugin.settings.classificationOptions.cacheResults !== false)
 				.onChange(async (value) => {
-					this.plugin.settings.classificationOptions.skipUnclassified = value;
+					this.plugin.settings.classificationOptions.cacheResults = value;
 					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('キャッシュを消去')
+				.onClick(async () => {
+					await this.plugin.clearClassificationCache();
 				}));
 				
+		new Setting(containerEl)
+			.setName('自動で移動する確信度')
+			.setDesc('AIの確信度（0〜100）がこの値未満のメモは移動せず「確認待ち」にします。0の場合は確信度に関係なく移動します')
+			.addSlider(slider => slider
+				.setLimits(0, 100, 5)
+				.setValue(this.plugin.settings.classificationOptions.confidenceThreshold || 0)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.classificationOptions.confidenceThreshold = value;
+					await this.plugin.saveSettings();
+				}));
+				
+		new Setting(containerEl)
+			.setName('既存メモの例の件数')
+			.setDesc('各分類先フォルダにある既存のメモを、フォルダごとにこの件数までタイトルと冒頭の抜粋をAIに例として渡します。0の場合は渡しません')
+			.addSlider(slider => slider
+				.setLimits(0, 5, 1)
+				.setValue(this.plugin.settings.classificationOptions.fewShotExamplesPerFolder || 0)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.classificationOptions.fewShotExamplesPerFolder = value;
+					await this.plugin.saveSettings();
+				}));
+				
+		new Setting(containerEl)
+			.setName('既存メモの例のトークン上限')
+			.setDesc('既存メモの例に使うトークン数のおおよその上限（全フォルダ合計）。上限に達した時点で例の追加をやめます')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.classificationOptions.fewShotTokenBudget || 800))
+				.onChange(async (value) => {
+					const numValue = parseInt(value);
+					if (!isNaN(numValue) && numValue > 0) {
+						this.plugin.settings.classificationOptions.fewShotTokenBudget = numValue;
+						await this.plugin.saveSettings();
+					}
+				}));
+				
+		new Setting(containerEl)
+			.setName('分類結果の反映方法')
+			.setDesc('メモをフォルダに移動するか、移動せずに分類先をプロパティ・タグとしてメモに書き込むか')
+			.addDropdown(dropdown => {
+				(Object.keys(APPLY_MODE_LABELS) as ApplyMode[]).forEach(mode => {
+					dropdown.addOption(mode, APPLY_MODE_LABELS[mode]);
+				});
+				dropdown
+					.setValue(this.plugin.settings.applyMode)
+					.onChange(async (value) => {
+						this.plugin.settings.applyMode = value as ApplyMode;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+		
+		const applyMode = this.plugin.settings.applyMode;
+		if (applyMode === 'property' || applyMode === 'property-and-tag') {
+			new Setting(containerEl)
+				.setName('分類結果のプロパティ名')
+				.setDesc('分類先を書き込むプロパティ（例：category: 技術メモ）')
+				.addText(text => text
+					.setPlaceholder('category')
+					.setValue(this.plugin.settings.categoryProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.categoryProperty = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+		if (applyMode === 'tag' || applyMode === 'property-and-tag') {
+			new Setting(containerEl)
+				.setName('分類結果のタグの書式')
+				.setDesc('{folder}が分類先フォルダ名に置き換わります（例：category/{folder} → #category/技術メモ）。空白は「-」に置き換わります')
+				.addText(text => text
+					.setPlaceholder('category/{folder}')
+					.setValue(this.plugin.settings.categoryTagFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.categoryTagFormat = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+				
+		new Setting(containerEl)
+			.setName('同名ファイルがある場合')
+			.setDesc('移動先に同じ名前のファイルが既にある場合の対応')
+			.addDropdown(dropdown => {
+				(Object.keys(COLLISION_POLICY_LABELS) as CollisionPolicy[]).forEach(policy => {
+					dropdown.addOption(policy, COLLISION_POLICY_LABELS[policy]);
+				});
+				dropdown
+					.setValue(this.plugin.settings.collisionPolicy)
+					.onChange(async (value) => {
+						this.plugin.settings.collisionPolicy = value as CollisionPolicy;
+						await this.plugin.saveSettings();
+					});
+			});
+				
+		new Setting(containerEl)
+			.setName('添付ファイルも一緒に移動する')
+			.setDesc('メモが埋め込んでいる画像やPDFのうち、監視対象フォルダ内にあり他のメモから参照されていないものをメモと一緒に移動します')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.moveAttachments)
+				.onChange(async (value) => {
+					this.plugin.settings.moveAttachments = value;
+					await this.plugin.saveSettings();
+					attachmentFolderSetting.settingEl.classList.toggle('is-hidden', !value);
+				}));
+		
+		const attachmentFolderSetting = new Setting(containerEl)
+			.setName('添付ファイルの移動先')
+			.setDesc('分類先フォルダからの相対パス（例：attachments）。空欄の場合は分類先フォルダにメモと並べて移動します')
+			.addText(text => text
+				.setPlaceholder('attachments')
+				.setValue(this.plugin.settings.attachmentFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.attachmentFolder = value;
+					await this.plugin.saveSettings();
+				}));
+		attachmentFolderSetting.settingEl.classList.toggle('is-hidden', !this.plugin.settings.moveAttachments);
+				
+		// 移動しない反映方法では「未分類フォルダに移動する」は選択できない
+		const unclassifiedPolicy = getEffectiveUnclassifiedPolicy(this.plugin.settings.unclassifiedPolicy, this.plugin.settings.applyMode);
+		new Setting(containerEl)
+			.setName('分類先が見つからなかったメモ')
+			.setDesc(this.plugin.settings.applyMode === 'move'
+				? 'AIがどのフォルダにも当てはまらないと判断したメモの扱い'
+				: 'AIがどのフォルダにも当てはまらないと判断したメモの扱い（移動しない反映方法では、未分類フォルダには移動しません）')
+			.addDropdown(dropdown => {
+				(Object.keys(UNCLASSIFIED_POLICY_LABELS) as UnclassifiedPolicy[])
+					.filter(policy => policy !== 'move' || this.plugin.settings.applyMode === 'move')
+					.forEach(policy => {
+						dropdown.addOption(policy, UNCLASSIFIED_POLICY_LABELS[policy]);
+					});
+				dropdown
+					.setValue(unclassifiedPolicy)
+					.onChange(async (value) => {
+						this.plugin.settings.unclassifiedPolicy = value as UnclassifiedPolicy;
+						await this.plugin.saveSettings();
+						// 選択した対応に応じた設定項目を表示し直す
+						this.display();
+					});
+			});
+		
+		if (unclassifiedPolicy === 'move') {
+			new Setting(containerEl)
+				.setName('未分類フォルダ')
+				.setDesc('分類先フォルダと同じく監視対象フォルダからの相対パスで指定します。「/」で始めるとVaultのルートからのパスになります')
+				.addText(text => text
+					.setPlaceholder('未分類')
+					.setValue(this.plugin.settings.unsortedFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.unsortedFolder = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		} else {
+			if (unclassifiedPolicy === 'tag') {
+				new Setting(containerEl)
+					.setName('付けるタグ')
+					.setDesc('分類先が見つからなかったメモのプロパティ（tags）に追加するタグ')
+					.addText(text => text
+						.setPlaceholder('未分類')
+						.setValue(this.plugin.settings.unsortedTag)
+						.onChange(async (value) => {
+							this.plugin.settings.unsortedTag = value.trim().replace(/^#/, '');
+							await this.plugin.saveSettings();
+						}));
+			}
+			
+			new Setting(containerEl)
+				.setName('再試行までの日数')
+				.setDesc('分類先が見つからなかったメモを、この日数が経つまで分類の対象から外します。メモの内容が変わった場合はすぐに再試行します')
+				.addText(text => text
+					.setValue(String(this.plugin.settings.unclassifiedRetryDays))
+					.onChange(async (value) => {
+						const numValue = parseInt(value);
+						if (!isNaN(numValue) && numValue >= 0) {
+							this.plugin.settings.unclassifiedRetryDays = numValue;
+							await this.plugin.saveSettings();
+						}
+					}));
+			
+			new Setting(containerEl)
+				.setName('再試行の上限回数')
+				.setDesc('この回数だけ分類先が見つからなかったメモは、内容が変わるまで再試行しません（0の場合は無制限）')
+				.addText(text => text
+					.setValue(String(this.plugin.settings.unclassifiedMaxAttempts))
+					.onChange(async (value) => {
+						const numValue = parseInt(value);
+						if (!isNaN(numValue) && numValue >= 0) {
+							this.plugin.settings.unclassifiedMaxAttempts = numValue;
+							await this.plugin.saveSettings();
+						}
+					}));
+		}
+				
 		// ログ表示設定
 		new Setting(containerEl)
 			.setName('詳細ログの表示')
@@ -357,50 +872,502 @@ export class SortInboxSettingTab extends PluginSettingTab {
 		// フッター情報
 		const footerEl = containerEl.createEl('div', { cls: 'sort-inbox-footer' });
 		footerEl.createEl('p', {
-			text: 'Gemini 2.0 Flash API を使用しています。API使用量や制限についてはGoogle AI Studioをご確認ください。'
+			text: 'API使用量や制限については、各プロバイダー（Google AI Studio、OpenAIなど）のダッシュボードをご確認ください。'
 		});
 	}
 
+	// 選択中のプロバイダーに必要な設定項目を追加する
+	addProviderSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		
+		switch (settings.llmProvider) {
+			case 'openai':
+				new Setting(containerEl)
+					.setName('ベースURL')
+					.setDesc('OpenAI互換APIのベースURL（例：https://api.openai.com/v1、http://localhost:1234/v1）')
+					.addText(text => text
+						.setPlaceholder('https://api.openai.com/v1')
+						.setValue(settings.openaiBaseUrl)
+						.onChange(async (value) => {
+							settings.openaiBaseUrl = value;
+							await this.plugin.saveSettings();
+						}));
+				new Setting(containerEl)
+					.setName('API キー')
+					.setDesc('不要なエンドポイントの場合は空欄のままにしてください')
+					.addText(text => text
+						.setPlaceholder('API キーを入力')
+						.setValue(settings.openaiApiKey)
+						.onChange(async (value) => {
+							settings.openaiApiKey = value;
+							await this.plugin.saveSettings();
+						}));
+				new Setting(containerEl)
+					.setName('モデル名')
+					.setDesc('使用するモデル名（例：gpt-4o-mini）')
+					.addText(text => text
+						.setPlaceholder('gpt-4o-mini')
+						.setValue(settings.openaiModel)
+						.onChange(async (value) => {
+							settings.openaiModel = value;
+							await this.plugin.saveSettings();
+						}));
+				break;
+			case 'ollama':
+				new Setting(containerEl)
+					.setName('OllamaサーバーのURL')
+					.setDesc('ローカルで起動しているOllamaのURL（例：http://localhost:11434）')
+					.addText(text => text
+						.setPlaceholder('http://localhost:11434')
+						.setValue(settings.ollamaBaseUrl)
+						.onChange(async (value) => {
+							settings.ollamaBaseUrl = value;
+							await this.plugin.saveSettings();
+						}));
+				new Setting(containerEl)
+					.setName('モデル名')
+					.setDesc('`ollama pull` で取得済みのモデル名（例：llama3.1）')
+					.addText(text => text
+						.setPlaceholder('llama3.1')
+						.setValue(settings.ollamaModel)
+						.onChange(async (value) => {
+							settings.ollamaModel = value;
+							await this.plugin.saveSettings();
+						}));
+				break;
+			case 'gemini':
+			default:
+				new Setting(containerEl)
+					.setName('Gemini API キー')
+					.setDesc('Google AI Studio で取得したGemini APIキーを入力してください')
+					.addText(text => text
+						.setPlaceholder('API キーを入力')
+						.setValue(settings.geminiApiKey)
+						.onChange(async (value) => {
+							settings.geminiApiKey = value;
+							await this.plugin.saveSettings();
+						}));
+				break;
+		}
+	}
+
+	// 編集中のプロファイルの設定を返す（デフォルトのプロファイルは共通設定そのもの）
+	getEditingProfile(): InboxProfileSettings {
+		const profile = this.plugin.settings.profiles.find(p => p.id === this.editingProfileId);
+		return profile || this.plugin.settings;
+	}
+
+	// 編集中のプロファイルを反映した実効設定を返す
+	getEditingSettings(): SortInboxSettings {
+		return applyProfile(this.plugin.settings, this.getEditingProfile());
+	}
+
+	// プロファイルの選択・追加・削除の設定項目を追加する
+	addProfileSettings(containerEl: HTMLElement): void {
+		const profiles = this.plugin.settings.profiles;
+		const editing = profiles.find(p => p.id === this.editingProfileId);
+		
+		new Setting(containerEl)
+			.setName('編集するプロファイル')
+			.setDesc('監視対象フォルダごとに、分類先フォルダ・ルール・プロンプト・自動実行を設定できます。以下のフォルダ設定から分類ルールまでは選択中のプロファイルに適用されます')
+			.addDropdown(dropdown => {
+				dropdown.addOption(DEFAULT_PROFILE_ID, DEFAULT_PROFILE_NAME);
+				profiles.forEach(p => dropdown.addOption(p.id, p.name || '無題のプロファイル'));
+				dropdown
+					.setValue(editing ? editing.id : DEFAULT_PROFILE_ID)
+					.onChange((value) => {
+						this.editingProfileId = value;
+						this.display();
+					});
+			})
+			.addButton(button => button
+				.setButtonText('追加')
+				.onClick(async () => {
+					const profile = createProfile(`プロファイル${profiles.length + 1}`);
+					profiles.push(profile);
+					this.editingProfileId = profile.id;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+		
+		if (!editing) {
+			return;
+		}
+		
+		new Setting(containerEl)
+			.setName('プロファイル名')
+			.addText(text => text
+				.setValue(editing.name)
+				.onChange(async (value) => {
+					editing.name = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('削除')
+				.setWarning()
+				.onClick(async () => {
+					profiles.splice(profiles.indexOf(editing), 1);
+					this.editingProfileId = DEFAULT_PROFILE_ID;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
 	// フォルダリストを再描画する
 	refreshFolderList(containerEl: HTMLElement): void {
 		containerEl.empty();
+		const profile = this.getEditingProfile();
 		
-		if (this.plugin.settings.targetFolders.length === 0) {
+		const isManual = profile.targetFolderSource !== 'vault';
+		const folders = resolveTargetFolders(this.getEditingSettings(), this.app.vault);
+		
+		if (folders.length === 0) {
 			containerEl.createEl('div', {
 				cls: 'empty-folder-list',
-				text: 'フォルダリストが空です。フォルダを追加してください。'
+				text: isManual
+					? 'フォルダリストが空です。フォルダを追加してください。'
+					: '条件に一致するフォルダが見つかりません。検出条件を確認してください。'
 			});
 			return;
 		}
 		
+		if (!isManual) {
+			containerEl.createEl('div', {
+				cls: 'setting-description',
+				text: `${folders.length}個のフォルダを検出しました`
+			});
+		}
+		
 		const folderListEl = containerEl.createEl('div', { cls: 'folders-list' });
 		
-		this.plugin.settings.targetFolders.forEach((folder: string, index: number) => {
+		folders.forEach((folder: string, index: number) => {
 			const folderItemEl = folderListEl.createEl('div', { cls: 'folder-item' });
 			
 			// フォルダアイコンを表示
 			const iconEl = folderItemEl.createEl('span', { cls: 'folder-icon' });
 			setIcon(iconEl, 'folder');
 			
-			// フォルダ名を表示
-			folderItemEl.createEl('span', { 
+			// フォルダ名と説明を表示
+			const nameEl = folderItemEl.createEl('span', { 
 				cls: 'folder-name',
 				text: folder
 			});
+			const detail = profile.folderDetails[folder];
+			if (detail && detail.description) {
+				nameEl.createEl('span', {
+					cls: 'folder-description',
+					text: detail.description
+				});
+			}
+			
+			// 実際の移動先がフォルダ名と異なる場合は併記する
+			const destination = resolveTargetFolderPath(this.getEditingSettings(), folder);
+			if (isManual && destination !== folder) {
+				nameEl.createEl('span', {
+					cls: 'folder-description',
+					text: `→ ${destination}`
+				});
+			}
+			
+			// 説明・判断基準の編集ボタン
+			const editButtonEl = folderItemEl.createEl('button', { cls: 'folder-edit-btn' });
+			setIcon(editButtonEl, 'pencil');
+			editButtonEl.setAttribute('aria-label', isManual ? '説明・移動先を編集' : '説明を編集');
+			editButtonEl.addEventListener('click', () => {
+				new FolderDetailModal(this.app, folder, profile.folderDetails[folder], isManual, async (newDetail) => {
+					profile.folderDetails[folder] = newDetail;
+					await this.plugin.saveSettings();
+					this.refreshFolderList(containerEl);
+				}).open();
+			});
 			
-			// 削除ボタン
+			// 削除ボタン（自動検出したフォルダは検出条件で除外する）
+			if (!isManual) {
+				return;
+			}
 			const deleteButtonEl = folderItemEl.createEl('button', { cls: 'folder-delete-btn' });
 			setIcon(deleteButtonEl, 'trash');
 			
 			// 削除ボタンのクリックイベント
 			deleteButtonEl.addEventListener('click', async () => {
-				this.plugin.settings.targetFolders.splice(index, 1);
+				profile.targetFolders.splice(index, 1);
+				delete profile.folderDetails[folder];
 				await this.plugin.saveSettings();
 				this.refreshFolderList(containerEl);
 			});
 		});
 	}
 	
+	// 監視対象フォルダ内のメモを探す条件の設定項目を追加する
+	addInboxScanSettings(containerEl: HTMLElement): void {
+		const scan = this.getEditingProfile().inboxScan;
+		const parseLines = (value: string) => value.split('\n').map(line => line.trim()).filter(line => line);
+		
+		new Setting(containerEl)
+			.setName('サブフォルダも対象にする')
+			.setDesc('ONにすると、監視対象フォルダのサブフォルダ（例：メモ/clips/2026-10/）にあるメモも分類します。監視対象フォルダ内の分類先フォルダと未分類フォルダは対象外です')
+			.addToggle(toggle => toggle
+				.setValue(scan.recursive)
+				.onChange(async (value) => {
+					scan.recursive = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+		
+		if (scan.recursive) {
+			new Setting(containerEl)
+				.setName('サブフォルダの最大階層')
+				.setDesc('監視対象フォルダから何階層下までを対象にするか（1は直下のメモのみ）')
+				.addSlider(slider => slider
+					.setLimits(1, 10, 1)
+					.setValue(scan.maxDepth)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						scan.maxDepth = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+		
+		new Setting(containerEl)
+			.setName('Markdown以外に分類するファイル')
+			.setDesc('拡張子をカンマ区切りで指定（例：pdf, png, jpg, canvas）。テキスト形式のファイルは内容から、PDFや画像はファイル名・サイズと埋め込んでいるメモから分類します')
+			.addText(text => text
+				.setPlaceholder('pdf, png, canvas')
+				.setValue((scan.extensions || []).join(', '))
+				.onChange(async (value) => {
+					scan.extensions = value.split(',').map(ext => ext.trim().replace(/^\./, '').toLowerCase()).filter(ext => ext);
+					await this.plugin.saveSettings();
+				}));
+		
+		new Setting(containerEl)
+			.setName('対象にするメモ')
+			.setDesc('監視対象フォルダからの相対パスのグロブパターンを1行に1つ（例：**/*.md、clips/**）。「!」で始まるパターンは除外（例：!**/templates/**）。空欄の場合はすべて対象')
+			.addTextArea(text => text
+				.setValue(scan.include.join('\n'))
+				.onChange(async (value) => {
+					scan.include = parseLines(value);
+					await this.plugin.saveSettings();
+				}));
+		
+		new Setting(containerEl)
+			.setName('除外するメモ')
+			.setDesc('グロブパターンを1行に1つ（例：**/templates/**。先頭の「!」は省略できます）')
+			.addTextArea(text => text
+				.setValue(scan.exclude.join('\n'))
+				.onChange(async (value) => {
+					scan.exclude = parseLines(value);
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	// 要約・キーワード・タグの生成の設定項目を追加する
+	addEnrichmentSettings(containerEl: HTMLElement): void {
+		const enrichment = this.plugin.settings.enrichment;
+		
+		new Setting(containerEl)
+			.setName('1行の要約')
+			.setDesc('要約を書き込むプロパティ名')
+			.addText(text => text
+				.setPlaceholder('summary')
+				.setValue(enrichment.summaryProperty)
+				.onChange(async (value) => {
+					enrichment.summaryProperty = value;
+					await this.plugin.saveSettings();
+				}))
+			.addToggle(toggle => toggle
+				.setValue(enrichment.summary)
+				.onChange(async (value) => {
+					enrichment.summary = value;
+					await this.plugin.saveSettings();
+				}));
+		
+		new Setting(containerEl)
+			.setName('キーワード')
+			.setDesc('キーワード（最大5件）を書き込むプロパティ名')
+			.addText(text => text
+				.setPlaceholder('keywords')
+				.setValue(enrichment.keywordsProperty)
+				.onChange(async (value) => {
+					enrichment.keywordsProperty = value;
+					await this.plugin.saveSettings();
+				}))
+			.addToggle(toggle => toggle
+				.setValue(enrichment.keywords)
+				.onChange(async (value) => {
+					enrichment.keywords = value;
+					await this.plugin.saveSettings();
+				}));
+		
+		new Setting(containerEl)
+			.setName('タグの提案')
+			.setDesc('提案されたタグ（最大5件）をtagsに追加します（既存のタグは残します）')
+			.addToggle(toggle => toggle
+				.setValue(enrichment.tags)
+				.onChange(async (value) => {
+					enrichment.tags = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	// 分類対象フォルダの自動検出条件の設定項目を追加する
+	addDiscoverySettings(containerEl: HTMLElement, onChange: () => void): void {
+		const discovery = this.getEditingProfile().folderDiscovery;
+		const parseLines = (value: string) => value.split('\n').map(line => line.trim()).filter(line => line);
+		
+		new Setting(containerEl)
+			.setName('検出するルートフォルダ')
+			.setDesc('このフォルダ配下のフォルダを分類先にします（空欄の場合はVault全体）')
+			.addText(text => text
+				.setPlaceholder('例：Projects')
+				.setValue(discovery.root)
+				.onChange(async (value) => {
+					discovery.root = value;
+					await this.plugin.saveSettings();
+					onChange();
+				}));
+		
+		new Setting(containerEl)
+			.setName('対象にするフォルダ')
+			.setDesc('グロブパターンを1行に1つ（例：Projects/*、**/資料）。空欄の場合はすべて対象')
+			.addTextArea(text => text
+				.setValue(discovery.include.join('\n'))
+				.onChange(async (value) => {
+					discovery.include = parseLines(value);
+					await this.plugin.saveSettings();
+					onChange();
+				}));
+		
+		new Setting(containerEl)
+			.setName('除外するフォルダ')
+			.setDesc('グロブパターンを1行に1つ（例：Archive/**、**/attachments）')
+			.addTextArea(text => text
+				.setValue(discovery.exclude.join('\n'))
+				.onChange(async (value) => {
+					discovery.exclude = parseLines(value);
+					await this.plugin.saveSettings();
+					onChange();
+				}));
+		
+		new Setting(containerEl)
+			.setName('最大階層')
+			.setDesc('ルートフォルダから何階層下までを検出するか（1は直下のフォルダのみ）')
+			.addSlider(slider => slider
+				.setLimits(1, 5, 1)
+				.setValue(discovery.maxDepth)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					discovery.maxDepth = value;
+					await this.plugin.saveSettings();
+					onChange();
+				}));
+	}
+
+	// 分類ルールの一覧を再描画する
+	refreshRuleList(containerEl: HTMLElement): void {
+		containerEl.empty();
+		const rules = this.getEditingProfile().rules;
+		
+		if (rules.length === 0) {
+			containerEl.createEl('div', {
+				cls: 'empty-folder-list',
+				text: 'ルールはありません。すべてのメモをAIで分類します。'
+			});
+			return;
+		}
+		
+		rules.forEach((rule: ClassificationRule, index: number) => {
+			const ruleSetting = new Setting(containerEl)
+				.setClass('rule-item')
+				.addToggle(toggle => toggle
+					.setTooltip('有効/無効')
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						rule.enabled = value;
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => {
+					(Object.keys(RULE_TYPE_LABELS) as ClassificationRuleType[]).forEach(type => {
+						dropdown.addOption(type, RULE_TYPE_LABELS[type]);
+					});
+					dropdown
+						.setValue(rule.type)
+						.onChange(async (value) => {
+							rule.type = value as ClassificationRuleType;
+							await this.plugin.saveSettings();
+							// プロパティ名欄の表示を切り替えるため再描画
+							this.refreshRuleList(containerEl);
+						});
+				});
+			
+			// プロパティの値ルールのみプロパティ名を入力する
+			if (rule.type === 'frontmatter') {
+				ruleSetting.addText(text => text
+					.setPlaceholder('プロパティ名')
+					.setValue(rule.property || '')
+					.onChange(async (value) => {
+						rule.property = value.trim();
+						await this.plugin.saveSettings();
+					}));
+			}
+			
+			ruleSetting
+				.addText(text => text
+					.setPlaceholder(this.getRulePatternPlaceholder(rule.type))
+					.setValue(rule.pattern)
+					.onChange(async (value) => {
+						rule.pattern = value;
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => {
+					const folders = resolveTargetFolders(this.getEditingSettings(), this.app.vault);
+					folders.forEach(folder => dropdown.addOption(folder, folder));
+					// 分類先が一覧から削除されている場合もそのまま表示する
+					if (rule.targetFolder && !folders.includes(rule.targetFolder)) {
+						dropdown.addOption(rule.targetFolder, `${rule.targetFolder}（一覧にありません）`);
+					}
+					dropdown
+						.setValue(rule.targetFolder)
+						.onChange(async (value) => {
+							rule.targetFolder = value;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('上へ移動')
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						rules.splice(index - 1, 0, rules.splice(index, 1)[0]);
+						await this.plugin.saveSettings();
+						this.refreshRuleList(containerEl);
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('削除')
+					.onClick(async () => {
+						rules.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.refreshRuleList(containerEl);
+					}));
+		});
+	}
+	
+	// ルール種類ごとの入力例
+	getRulePatternPlaceholder(type: ClassificationRuleType): string {
+		switch (type) {
+			case 'title':
+				return '^\\d{4}-\\d{2}-\\d{2}$';
+			case 'frontmatter':
+				return '値（例：meeting）';
+			case 'tag':
+				return '#meeting';
+			case 'keyword':
+				return '議事録';
+			case 'domain':
+				return 'github.com';
+		}
+	}
+	
 	// ドラッグ&ドロップでの並べ替え機能（将来実装予定）
 	setupDragAndDrop(container: HTMLElement): void {
 		// ここに将来的にドラッグ&ドロップの実装を追加
@@ -512,6 +1479,13 @@ export class SortInboxSettingTab extends PluginSettingTab {
 				flex-grow: 1;
 			}
 			
+			.folder-description {
+				display: block;
+				font-size: 0.85em;
+				color: var(--text-muted);
+			}
+			
+			.folder-edit-btn,
 			.folder-delete-btn {
 				background: none;
 				border: none;
@@ -521,6 +1495,10 @@ export class SortInboxSettingTab extends PluginSettingTab {
 				border-radius: 3px;
 			}
 			
+			.folder-edit-btn:hover {
+				color: var(--text-accent);
+			}
+			
 			.folder-delete-btn:hover {
 				color: var(--text-error);
 				background-color: var(--background-modifier-error);
@@ -540,6 +1518,15 @@ export class SortInboxSettingTab extends PluginSettingTab {
 				background-color: var(--background-primary);
 			}
 			
+			.rule-list-container {
+				margin: 10px 0;
+			}
+			
+			.rule-item .setting-item-control {
+				flex-wrap: wrap;
+				gap: 6px;
+			}
+			
 			.interval-label {
 				text-align: center;
 				font-size: 0.9em;
@@ -587,4 +1574,84 @@ export class SortInboxSettingTab extends PluginSettingTab {
 		
 		document.head.appendChild(styleEl);
 	}
-} 
\ No newline at end of file
+} 
+
+// 分類先フォルダの説明・判断基準・例を編集するモーダル
+class FolderDetailModal extends Modal {
+	private detail: TargetFolderDetail;
+
+	// showDestination: 移動先のパスを指定できるか（自動検出したフォルダはVault内のパスのため指定できない）
+	constructor(app: App, private folder: string, detail: TargetFolderDetail | undefined, private showDestination: boolean, private onSubmit: (detail: TargetFolderDetail) => void) {
+		super(app);
+		this.detail = detail
+			? { ...detail, examples: [...detail.examples] }
+			: { description: '', include: '', exclude: '', examples: [] };
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: `「${this.folder}」の設定` });
+		contentEl.createEl('p', {
+			cls: 'setting-description',
+			text: '説明・含めるもの・含めないもの・例は分類時のプロンプトに含まれます。似た名前のフォルダの違いを具体的に書くと精度が上がります。'
+		});
+
+		new Setting(contentEl)
+			.setName('説明')
+			.setDesc('どのようなメモを入れるフォルダか')
+			.addTextArea(text => text
+				.setValue(this.detail.description)
+				.onChange(value => this.detail.description = value));
+
+		new Setting(contentEl)
+			.setName('含めるもの')
+			.setDesc('このフォルダに分類すべきメモの特徴')
+			.addTextArea(text => text
+				.setValue(this.detail.include)
+				.onChange(value => this.detail.include = value));
+
+		new Setting(contentEl)
+			.setName('含めないもの')
+			.setDesc('似ているが別のフォルダに分類すべきメモの特徴')
+			.addTextArea(text => text
+				.setValue(this.detail.exclude)
+				.onChange(value => this.detail.exclude = value));
+
+		if (this.showDestination) {
+			new Setting(contentEl)
+				.setName('移動先のパス')
+				.setDesc('Vault内の任意の場所に移動する場合に指定します（例：Topics/技術）。空欄の場合は監視対象フォルダ直下のフォルダに移動します')
+				.addText(text => text
+					.setPlaceholder('Topics/技術')
+					.setValue(this.detail.destination || '')
+					.onChange(value => this.detail.destination = value.trim() || undefined));
+		}
+
+		new Setting(contentEl)
+			.setName('例となるノート')
+			.setDesc('代表的なノートへのリンク（1行に1つ、例：[[2024-01-01 振り返り]]）')
+			.addTextArea(text => text
+				.setPlaceholder('[[ノート名]]')
+				.setValue(this.detail.examples.join('\n'))
+				.onChange(value => {
+					this.detail.examples = value.split('\n').map(line => line.trim()).filter(line => line);
+				}));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('キャンセル')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('保存')
+				.setCta()
+				.onClick(() => {
+					this.onSubmit(this.detail);
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
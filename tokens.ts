@@ -0,0 +1,6 @@
+// テキストのおおよそのトークン数を見積もる
+// 日本語などのCJK文字は1文字あたり約1トークン、それ以外は約4文字あたり1トークンとして数える
+export function estimateTokens(text: string): number {
+    const cjkCount = (text.match(/[　-ヿ㐀-䶿一-鿿豈-﫿＀-￯]/g) || []).length;
+    return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
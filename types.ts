@@ -24,9 +24,168 @@ export interface GeminiRequest {
     generationConfig: {
         temperature: number;
         maxOutputTokens: number;
+        responseMimeType?: string;
     };
 }
 
+// 使用するLLMプロバイダーの種類
+export type LLMProviderType = 'gemini' | 'openai' | 'ollama';
+
+// 分類方法（LLMのみ・ローカル分類器のみ・LLMが失敗した場合にローカル分類器を使う）
+export type ClassificationMethod = 'llm' | 'local' | 'llm-with-local-fallback';
+
+// プロバイダー共通の生成パラメータ
+export interface GenerationConfig {
+    temperature: number;
+    maxOutputTokens: number;
+    // JSON形式での出力を要求するか（対応しているプロバイダーのみ）
+    json?: boolean;
+}
+
+// OpenAI互換APIのレスポンスの型定義
+export interface OpenAIChatResponse {
+    choices: {
+        message: {
+            content: string | null;
+        };
+    }[];
+}
+
+// Ollama APIのレスポンスの型定義
+export interface OllamaChatResponse {
+    message?: {
+        content: string;
+    };
+    done: boolean;
+}
+
+// 分類先フォルダの補足情報（プロンプトに含めて分類精度を上げる）
+export interface TargetFolderDetail {
+    // フォルダの説明
+    description: string;
+    // このフォルダに含めるメモの特徴
+    include: string;
+    // このフォルダに含めないメモの特徴
+    exclude: string;
+    // 代表的なノートへのリンク（例：[[2024-01-01 振り返り]]）
+    examples: string[];
+    // 移動先のVault内のパス（未指定の場合はフォルダ名から決定する）
+    destination?: string;
+}
+
+// 分類対象フォルダの取得方法
+// manual: 設定で手動指定 / vault: Vault内の既存フォルダから自動検出
+export type TargetFolderSource = 'manual' | 'vault';
+
+// 分類対象フォルダを自動検出する際の条件
+export interface FolderDiscoveryOptions {
+    // 検出を開始するフォルダ（空文字はVaultのルート）
+    root: string;
+    // 対象にするフォルダのグロブパターン（空の場合はすべて）
+    include: string[];
+    // 除外するフォルダのグロブパターン
+    exclude: string[];
+    // ルートからの最大階層（1は直下のフォルダのみ）
+    maxDepth: number;
+}
+
+// 監視対象フォルダ内のメモを探す条件
+export interface InboxScanOptions {
+    // サブフォルダ内のメモも対象にするか
+    recursive: boolean;
+    // 監視対象フォルダからの最大階層（1は直下のメモのみ）
+    maxDepth: number;
+    // 対象にするメモのグロブパターン（監視対象フォルダからの相対パス、空の場合はすべて）
+    include: string[];
+    // 除外するメモのグロブパターン
+    exclude: string[];
+    // Markdown以外に分類対象にするファイルの拡張子（例：pdf、png、canvas）
+    extensions: string[];
+}
+
+// 分類ルールの種類
+// title: タイトルの正規表現 / frontmatter: プロパティの値 / tag: タグ / keyword: 本文のキーワード / domain: ソースURLのドメイン
+export type ClassificationRuleType = 'title' | 'frontmatter' | 'tag' | 'keyword' | 'domain';
+
+// LLMより先に評価される分類ルール
+export interface ClassificationRule {
+    type: ClassificationRuleType;
+    // 正規表現・値・タグ・キーワード・ドメインのいずれか
+    pattern: string;
+    // frontmatterルールで参照するプロパティ名
+    property?: string;
+    // 一致した場合の分類先フォルダ
+    targetFolder: string;
+    enabled: boolean;
+}
+
+// プロファイルごとに設定する項目（監視対象フォルダ・分類先・ルール・プロンプト・自動実行）
+export interface InboxProfileSettings {
+    inboxFolder: string;
+    inboxScan: InboxScanOptions;
+    targetFolderSource: TargetFolderSource;
+    targetFolders: string[];
+    folderDiscovery: FolderDiscoveryOptions;
+    folderDetails: Record<string, TargetFolderDetail>;
+    rules: ClassificationRule[];
+    // プロンプトに追加する指示
+    promptInstructions: string;
+    autoClassifyEnabled: boolean;
+    autoClassifyInterval: number;
+}
+
+// 追加の監視対象フォルダのプロファイル（例：仕事用の受信フォルダとプロジェクトフォルダ）
+export interface InboxProfile extends InboxProfileSettings {
+    id: string;
+    name: string;
+}
+
+// 移動先に同名ファイルがある場合の対応方針
+// suffix: 連番を付ける / timestamp: 日時を付ける / skip: 移動せず監視対象フォルダに残す / prompt: その都度確認する
+export type CollisionPolicy = 'suffix' | 'timestamp' | 'skip' | 'prompt';
+
+// 分類先が見つからなかったメモの対応方針
+// leave: 監視対象フォルダに残す / move: 未分類フォルダに移動する / tag: タグを付けて残す
+export type UnclassifiedPolicy = 'leave' | 'move' | 'tag';
+
+// 分類時にAIに生成させ、frontmatterに書き込むメタデータの設定
+export interface EnrichmentOptions {
+    // 1行の要約
+    summary: boolean;
+    // キーワード
+    keywords: boolean;
+    // タグの提案（tagsに追加する）
+    tags: boolean;
+    // 要約を書き込むプロパティ名
+    summaryProperty: string;
+    // キーワードを書き込むプロパティ名
+    keywordsProperty: string;
+}
+
+// AIが生成したメモのメタデータ
+export interface NoteEnrichment {
+    summary?: string;
+    keywords?: string[];
+    tags?: string[];
+}
+
+// 分類結果の反映方法
+// move: 分類先フォルダに移動する / property: プロパティに書き込む / tag: タグを付ける / property-and-tag: プロパティとタグの両方
+export type ApplyMode = 'move' | 'property' | 'tag' | 'property-and-tag';
+
+// 同名ファイルとの衝突に対して実際に行った対応
+export type CollisionResolution = 'suffix' | 'timestamp' | 'skip';
+
+// ファイル移動の結果
+export interface MoveOutcome {
+    // 移動後のパス（移動しなかった場合はnull）
+    newPath: string | null;
+    // 同名ファイルと衝突した場合の対応
+    collision?: CollisionResolution;
+    // メモと一緒に移動した添付ファイル
+    attachments?: TFile[];
+}
+
 // 分類プロセスの状態を表す型
 export enum ClassificationStatus {
     PENDING = "pending",
@@ -34,6 +193,10 @@ export enum ClassificationStatus {
     COMPLETED = "completed",
     FAILED = "failed",
     SKIPPED = "skipped",
+    // 確信度が低く、ユーザーの確認待ち
+    NEEDS_REVIEW = "needs_review",
+    // LLMの応答が解釈できない、または一覧にないフォルダだった
+    INVALID_RESPONSE = "invalid_response",
 }
 
 // 分類処理の履歴アイテムの型
@@ -41,9 +204,28 @@ export interface ClassificationHistoryItem {
     file: string;
     originalPath: string;
     newPath: string | null;
+    // 分類先フォルダ（設定上の名前）
+    targetFolder?: string;
     status: ClassificationStatus;
     timestamp: number;
     error?: string;
+    // 同名ファイルとの衝突に対して行った対応
+    collision?: CollisionResolution;
+    // メモと一緒に移動した添付ファイルの場合は、そのメモの元のパス
+    attachmentOf?: string;
+}
+
+// 1回の分類実行（ジャーナルの単位）
+export interface ClassificationRun {
+    id: string;
+    startedAt: number;
+    finishedAt?: number;
+    // 実行内の各ファイルの結果
+    items: ClassificationHistoryItem[];
+    // この実行で新規作成したフォルダ（元に戻す際に空なら削除する）
+    createdFolders: string[];
+    // 元に戻した日時
+    undoneAt?: number;
 }
 
 // 分類処理のオプション
@@ -52,12 +234,28 @@ export interface ClassificationOptions {
     maxContentLength?: number;
     // APIタイムアウト（ミリ秒）
     timeoutMs?: number;
+    // 1分あたりのAPIリクエスト数の上限（0の場合は無制限）
+    requestsPerMinute?: number;
+    // レート制限やサーバーエラーの場合に再試行する最大回数
+    maxRetries?: number;
     // 分類結果をログに記録するか
     logResults?: boolean;
-    // 分類できなかったファイルをスキップするか
-    skipUnclassified?: boolean;
     // 分類対象のフォルダリスト
     folderList?: string[];
+    // 一括分類で各ファイルから送信する最大文字数
+    batchExcerptLength?: number;
+    // 一括分類の1リクエストあたりの入力トークン数の目安（超える場合はファイルを分割して送信する）
+    batchInputTokenBudget?: number;
+    // 一括分類の1リクエストあたりの最大出力トークン数
+    batchMaxOutputTokens?: number;
+    // 内容と分類先の設定が変わっていないメモの分類結果を再利用するか
+    cacheResults?: boolean;
+    // 自動で移動する確信度の下限（0〜100、0の場合は確信度に関係なく移動する）
+    confidenceThreshold?: number;
+    // プロンプトに例として含める、各分類先フォルダの既存メモの件数（0の場合は含めない）
+    fewShotExamplesPerFolder?: number;
+    // 既存メモの例に使うトークン数の上限（全フォルダ合計のおおよその値）
+    fewShotTokenBudget?: number;
     // 高精度モード（より正確な分類を行うが、処理速度が遅くなる）
     highAccuracyMode?: boolean;
     // APIキーの検証ステータス
@@ -76,6 +274,12 @@ export interface ClassificationSummary {
     skippedFiles: number;
     // エラーが発生したファイルの数
     failedFiles: number;
+    // 確信度が低く確認待ちにしたファイルの数
+    reviewFiles: number;
+    // 一括分類で有効な回答が得られず、個別に分類し直したファイルの数
+    reclassifiedFiles: number;
+    // 分類先が見つからず未分類フォルダに移動したファイルの数
+    unsortedFiles: number;
     // 分類先フォルダごとの集計
     folderCounts: Record<string, number>;
     // 処理にかかった時間（ミリ秒）
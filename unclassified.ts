@@ -0,0 +1,93 @@
+import { App } from 'obsidian';
+import { ApplyMode, UnclassifiedPolicy } from './types';
+
+// 対応方針の表示名
+export const UNCLASSIFIED_POLICY_LABELS: Record<UnclassifiedPolicy, string> = {
+    leave: 'そのまま残す',
+    move: '未分類フォルダに移動する',
+    tag: 'タグを付けて残す',
+};
+
+// 実際に適用する対応方針を取得する
+// 移動しない反映方法では、分類先が見つからなかったメモだけを移動しないよう「そのまま残す」として扱う
+export function getEffectiveUnclassifiedPolicy(policy: UnclassifiedPolicy, applyMode: ApplyMode): UnclassifiedPolicy {
+    return policy === 'move' && applyMode !== 'move' ? 'leave' : policy;
+}
+
+// 分類できなかったメモの再試行の状態
+// new: 記録なし / changed: 前回から内容が変わった / retry: 再試行の時期になった
+// wait: 再試行の時期を待っている / exhausted: 再試行の上限に達した
+export type RetryState = 'new' | 'changed' | 'retry' | 'wait' | 'exhausted';
+
+// 分類できなかったメモの記録
+export interface UnclassifiedEntry {
+    // 分類を試みて分類先が見つからなかった回数
+    attempts: number;
+    lastAttempt: number;
+    // 最後に試みた時点の内容のハッシュ値
+    contentHash: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 分類できなかったメモを記録し、再試行するかどうかを判定する
+export class UnclassifiedTracker {
+    private entries: Record<string, UnclassifiedEntry> = {};
+
+    constructor(private app: App, private trackerPath: string) {}
+
+    // 記録ファイルを読み込む
+    async load(): Promise<void> {
+        try {
+            if (await this.app.vault.adapter.exists(this.trackerPath)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.trackerPath));
+                this.entries = data.entries && typeof data.entries === 'object' ? data.entries : {};
+            }
+        } catch (error) {
+            console.error('未分類メモの記録の読み込み中にエラーが発生:', error);
+            this.entries = {};
+        }
+    }
+
+    // 記録ファイルを保存する
+    async save(): Promise<void> {
+        await this.app.vault.adapter.write(this.trackerPath, JSON.stringify({ entries: this.entries }, null, 2));
+    }
+
+    // 再試行の状態を判定する（内容が変わった場合は回数に関係なく再試行する）
+    getRetryState(path: string, contentHash: string, retryDays: number, maxAttempts: number): RetryState {
+        const entry = this.entries[path];
+        if (!entry) {
+            return 'new';
+        }
+        if (entry.contentHash !== contentHash) {
+            return 'changed';
+        }
+        if (maxAttempts > 0 && entry.attempts >= maxAttempts) {
+            return 'exhausted';
+        }
+        return Date.now() - entry.lastAttempt >= retryDays * DAY_MS ? 'retry' : 'wait';
+    }
+
+    // 分類できなかったことを記録する（内容が変わっていれば回数を数え直す）
+    record(path: string, contentHash: string): void {
+        const entry = this.entries[path];
+        this.entries[path] = {
+            attempts: entry && entry.contentHash === contentHash ? entry.attempts + 1 : 1,
+            lastAttempt: Date.now(),
+            contentHash
+        };
+    }
+
+    // 分類された・移動されたメモの記録を削除する
+    remove(paths: string[]): void {
+        paths.forEach(path => delete this.entries[path]);
+    }
+
+    // 指定したパス以外の記録を削除する（受信フォルダから無くなったメモの記録を整理する）
+    retain(paths: string[]): void {
+        Object.keys(this.entries)
+            .filter(path => !paths.includes(path))
+            .forEach(path => delete this.entries[path]);
+    }
+}